@@ -0,0 +1,26 @@
+module.exports = {
+  root: true,
+  parser: "@typescript-eslint/parser",
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: "module",
+  },
+  plugins: ["@typescript-eslint"],
+  extends: ["eslint:recommended", "plugin:@typescript-eslint/recommended"],
+  env: {
+    node: true,
+    es2022: true,
+  },
+  rules: {
+    // Plugins are loaded with require() and their tool arguments are untyped
+    "@typescript-eslint/no-explicit-any": "off",
+    "@typescript-eslint/no-var-requires": "off",
+    // Rest siblings drop properties, Express error handlers need all four
+    // parameters
+    "@typescript-eslint/no-unused-vars": [
+      "error",
+      { args: "none", ignoreRestSiblings: true },
+    ],
+    "no-constant-condition": ["error", { checkLoops: false }],
+  },
+};
@@ -27,7 +27,7 @@ class PostgresPlugin {
     this.name = "postgres";
     this.version = "1.0.0";
     this.description = "A plugin for interacting with PostgreSQL databases";
-    this.dependencies = ["pg"];
+    this.dependencies = [];
     this.pool = null;
     this.databaseUrl = "";
   }
@@ -35,13 +35,12 @@ class PostgresPlugin {
   async initialize(context: any): Promise<void> {
     this.context = context;
 
-    // Get database URL from environment variables
-    this.databaseUrl =
-      process.env.DATABASE_URL || process.env.POSTGRES_URL || "";
+    // Get database URL from the plugin's credentials
+    this.databaseUrl = (await context.getCredential("database_url")) || "";
 
     if (!this.databaseUrl) {
       throw new Error(
-        "Database URL not found. Please set DATABASE_URL or POSTGRES_URL environment variable."
+        'Database URL not found. Please store a "database_url" credential for the postgres plugin.'
       );
     }
 
@@ -143,6 +142,47 @@ class PostgresPlugin {
     ];
   }
 
+  getResourceTemplates(): Array<any> {
+    return [
+      {
+        uriTemplate: "postgres://table/{table_name}",
+        name: "Table Schema",
+        description: "Column information for a single table",
+        mimeType: "application/json",
+      },
+    ];
+  }
+
+  async readResource(
+    uri: string,
+    params: Record<string, string>
+  ): Promise<any> {
+    if (uri === "postgres://database/schema") {
+      const tables = await this.listTables();
+      const schema: Record<string, ColumnInfo[]> = {};
+      for (const { table_name } of tables) {
+        schema[table_name] = await this.describeTable(table_name);
+      }
+      return { text: JSON.stringify({ tables: schema }, null, 2) };
+    }
+
+    if (params.table_name) {
+      const columns = await this.describeTable(params.table_name);
+      if (columns.length === 0) {
+        throw new Error(`Table '${params.table_name}' not found`);
+      }
+      return {
+        text: JSON.stringify(
+          { table_name: params.table_name, columns },
+          null,
+          2
+        ),
+      };
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
   private async executeReadOnlyQuery(sql: string): Promise<any[]> {
     if (!this.pool) {
       throw new Error("Database not initialized");
@@ -347,6 +387,17 @@ class PostgresPlugin {
     }
   }
 
+  // Run by the server's health checks; a pool that can no longer reach the
+  // database makes the plugin unhealthy
+  async healthCheck(): Promise<{ healthy: boolean; message?: string }> {
+    if (!this.pool) {
+      return { healthy: false, message: "Database not initialized" };
+    }
+
+    await this.pool.query("SELECT 1");
+    return { healthy: true };
+  }
+
   async cleanup(): Promise<void> {
     if (this.pool) {
       try {
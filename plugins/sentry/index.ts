@@ -70,13 +70,12 @@ class SentryPlugin {
   async initialize(context: any): Promise<void> {
     this.context = context;
 
-    // Get auth token from environment or context
-    this.authToken =
-      process.env.SENTRY_AUTH_TOKEN || process.env.MCP_SENTRY_AUTH_TOKEN || "";
+    // Get auth token from the plugin's credentials
+    this.authToken = (await context.getCredential("api_key")) || "";
 
     if (!this.authToken) {
       throw new Error(
-        "Sentry authentication token not found. Please set SENTRY_AUTH_TOKEN or MCP_SENTRY_AUTH_TOKEN environment variable."
+        'Sentry authentication token not found. Please store an "api_key" credential for the sentry plugin.'
       );
     }
 
@@ -235,7 +234,7 @@ ${issueData.stacktrace}
 
       if (issueResponse.status === 401) {
         throw new Error(
-          "Error: Unauthorized. Please check your SENTRY_AUTH_TOKEN token."
+          "Error: Unauthorized. Please check the sentry plugin's api_key credential."
         );
       }
 
@@ -313,6 +313,58 @@ You should:
     return [];
   }
 
+  getPrompts(): Array<any> {
+    return [
+      {
+        name: "structured_reasoning",
+        description:
+          "Work through a problem step by step using the sequential_thinking tool",
+        arguments: [
+          {
+            name: "problem",
+            description: "The problem or question to reason about",
+            required: true,
+          },
+          {
+            name: "estimated_steps",
+            description: "Initial estimate of the number of thoughts needed",
+            required: false,
+          },
+        ],
+      },
+    ];
+  }
+
+  async getPrompt(name: string, args: Record<string, string>): Promise<any> {
+    if (name !== "structured_reasoning") {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const estimatedSteps = args.estimated_steps || "5";
+    return {
+      description: "Structured reasoning with sequential thoughts",
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Solve the following problem using the sequential_thinking tool.
+
+Problem:
+${args.problem}
+
+Start with an estimate of ${estimatedSteps} thoughts and adjust it as you go. For each thought:
+1. State what you are analysing in this step
+2. Question or revise earlier thoughts when new information contradicts them (isRevision)
+3. Branch to explore alternative approaches when the path is unclear (branchFromThought)
+
+Once the analysis is complete, generate a solution hypothesis and verify it against your earlier thoughts. Only set nextThoughtNeeded to false when the hypothesis holds, then give a single, clear final answer.`,
+          },
+        },
+      ],
+    };
+  }
+
   async executeTool(name: string, args: any): Promise<any> {
     if (!this.context) {
       throw new Error("Plugin not properly initialized");
@@ -41,15 +41,23 @@ interface GetUserProfileArgs {
 }
 
 class SlackClient {
-  private botHeaders: { Authorization: string; "Content-Type": string };
+  private getAuthHeaders: () => Promise<Record<string, string>>;
   private teamId: string;
 
-  constructor(botToken: string, teamId: string) {
-    this.botHeaders = {
-      Authorization: `Bearer ${botToken}`,
+  constructor(
+    getAuthHeaders: () => Promise<Record<string, string>>,
+    teamId: string
+  ) {
+    this.getAuthHeaders = getAuthHeaders;
+    this.teamId = teamId;
+  }
+
+  // Asked for on every request, so that a refreshed bot token is picked up
+  private async botHeaders(): Promise<Record<string, string>> {
+    return {
+      ...(await this.getAuthHeaders()),
       "Content-Type": "application/json",
     };
-    this.teamId = teamId;
   }
 
   async getChannels(limit: number = 100, cursor?: string): Promise<any> {
@@ -66,7 +74,7 @@ class SlackClient {
 
     const response = await fetch(
       `https://slack.com/api/conversations.list?${params}`,
-      { headers: this.botHeaders }
+      { headers: await this.botHeaders() }
     );
 
     return response.json();
@@ -75,7 +83,7 @@ class SlackClient {
   async postMessage(channel_id: string, text: string): Promise<any> {
     const response = await fetch("https://slack.com/api/chat.postMessage", {
       method: "POST",
-      headers: this.botHeaders,
+      headers: await this.botHeaders(),
       body: JSON.stringify({
         channel: channel_id,
         text: text,
@@ -92,7 +100,7 @@ class SlackClient {
   ): Promise<any> {
     const response = await fetch("https://slack.com/api/chat.postMessage", {
       method: "POST",
-      headers: this.botHeaders,
+      headers: await this.botHeaders(),
       body: JSON.stringify({
         channel: channel_id,
         thread_ts: thread_ts,
@@ -110,7 +118,7 @@ class SlackClient {
   ): Promise<any> {
     const response = await fetch("https://slack.com/api/reactions.add", {
       method: "POST",
-      headers: this.botHeaders,
+      headers: await this.botHeaders(),
       body: JSON.stringify({
         channel: channel_id,
         timestamp: timestamp,
@@ -132,7 +140,7 @@ class SlackClient {
 
     const response = await fetch(
       `https://slack.com/api/conversations.history?${params}`,
-      { headers: this.botHeaders }
+      { headers: await this.botHeaders() }
     );
 
     return response.json();
@@ -146,7 +154,7 @@ class SlackClient {
 
     const response = await fetch(
       `https://slack.com/api/conversations.replies?${params}`,
-      { headers: this.botHeaders }
+      { headers: await this.botHeaders() }
     );
 
     return response.json();
@@ -163,7 +171,7 @@ class SlackClient {
     }
 
     const response = await fetch(`https://slack.com/api/users.list?${params}`, {
-      headers: this.botHeaders,
+      headers: await this.botHeaders(),
     });
 
     return response.json();
@@ -177,7 +185,7 @@ class SlackClient {
 
     const response = await fetch(
       `https://slack.com/api/users.profile.get?${params}`,
-      { headers: this.botHeaders }
+      { headers: await this.botHeaders() }
     );
 
     return response.json();
@@ -203,16 +211,15 @@ class SlackPlugin {
   async initialize(context: any): Promise<void> {
     this.context = context;
 
-    const botToken = process.env.SLACK_BOT_TOKEN || "";
-    const teamId = process.env.SLACK_TEAM_ID || "";
-
-    if (!botToken || !teamId) {
+    const teamId = (await context.getCredential("team_id")) || "";
+    if (!teamId) {
       throw new Error(
-        "Slack credentials not found. Please set SLACK_BOT_TOKEN and SLACK_TEAM_ID environment variables."
+        'Slack workspace not found. Please store a "team_id" credential.'
       );
     }
 
-    this.slackClient = new SlackClient(botToken, teamId);
+    // The bot token comes from the OAuth flow, through getAuthHeaders()
+    this.slackClient = new SlackClient(() => context.getAuthHeaders(), teamId);
     context.logger.info("Slack plugin initialized successfully");
   }
 
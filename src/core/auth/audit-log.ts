@@ -0,0 +1,158 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CredentialAuditEntry,
+  CredentialMetadata,
+  CredentialOptions,
+  KeyRotationResult,
+  ManagedSecureStorage,
+} from "../../types/auth";
+
+export interface AuditQuery {
+  pluginId?: string;
+  actor?: string;
+  limit?: number;
+}
+
+/**
+ * Append-only log of credential accesses, one JSON entry per line. Entries are
+ * only ever appended; nothing in the server rewrites or truncates the file.
+ */
+export class FileCredentialAuditLog {
+  private ready: Promise<void>;
+
+  constructor(private filePath: string = "./data/audit/credentials.log") {
+    this.ready = fs.promises
+      .mkdir(path.dirname(filePath), { recursive: true })
+      .then(() => undefined);
+  }
+
+  async append(entry: CredentialAuditEntry): Promise<void> {
+    await this.ready;
+    await fs.promises.appendFile(this.filePath, JSON.stringify(entry) + "\n", {
+      mode: 0o600,
+    });
+  }
+
+  // Most recent entries first
+  async query(filter: AuditQuery = {}): Promise<CredentialAuditEntry[]> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as any).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: CredentialAuditEntry[] = [];
+    const lines = data.split("\n").filter(Boolean).reverse();
+
+    for (const line of lines) {
+      let entry: CredentialAuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue; // Truncated by a crash during an append
+      }
+      if (filter.pluginId && entry.pluginId !== filter.pluginId) continue;
+      if (filter.actor && entry.actor !== filter.actor) continue;
+
+      entries.push(entry);
+      if (filter.limit && entries.length >= filter.limit) break;
+    }
+
+    return entries;
+  }
+}
+
+/**
+ * Wraps a storage backend and records every read, write and delete in the
+ * audit log, attributed to `actor`. Use withActor() to get a view for a
+ * specific plugin.
+ */
+export class AuditedSecureStorage implements ManagedSecureStorage {
+  constructor(
+    private inner: ManagedSecureStorage,
+    private auditLog: FileCredentialAuditLog,
+    private actor: string = "server"
+  ) {}
+
+  withActor(actor: string): AuditedSecureStorage {
+    return new AuditedSecureStorage(this.inner, this.auditLog, actor);
+  }
+
+  private async record(
+    action: CredentialAuditEntry["action"],
+    pluginId: string,
+    credentialId: string,
+    success: boolean
+  ): Promise<void> {
+    try {
+      await this.auditLog.append({
+        timestamp: new Date().toISOString(),
+        actor: this.actor,
+        action,
+        pluginId,
+        credentialId,
+        success,
+      });
+    } catch (error) {
+      console.error("Failed to write credential audit entry:", error);
+    }
+  }
+
+  async storeCredential(
+    pluginId: string,
+    credentialId: string,
+    value: string,
+    options?: CredentialOptions
+  ): Promise<void> {
+    try {
+      await this.inner.storeCredential(pluginId, credentialId, value, options);
+      await this.record("write", pluginId, credentialId, true);
+    } catch (error) {
+      await this.record("write", pluginId, credentialId, false);
+      throw error;
+    }
+  }
+
+  async retrieveCredential(
+    pluginId: string,
+    credentialId: string
+  ): Promise<string | null> {
+    const value = await this.inner.retrieveCredential(pluginId, credentialId);
+    await this.record("read", pluginId, credentialId, value !== null);
+    return value;
+  }
+
+  async deleteCredential(
+    pluginId: string,
+    credentialId: string
+  ): Promise<void> {
+    try {
+      await this.inner.deleteCredential(pluginId, credentialId);
+      await this.record("delete", pluginId, credentialId, true);
+    } catch (error) {
+      await this.record("delete", pluginId, credentialId, false);
+      throw error;
+    }
+  }
+
+  async listCredentials(pluginId: string): Promise<string[]> {
+    return await this.inner.listCredentials(pluginId);
+  }
+
+  async describeCredentials(pluginId: string): Promise<CredentialMetadata[]> {
+    return await this.inner.describeCredentials(pluginId);
+  }
+
+  async rotateMasterKey(newMasterKey: string): Promise<KeyRotationResult> {
+    return await this.inner.rotateMasterKey(newMasterKey);
+  }
+
+  getKeyVersion(): string {
+    return this.inner.getKeyVersion();
+  }
+}
@@ -0,0 +1,326 @@
+import * as crypto from "crypto";
+import jwt from "jsonwebtoken";
+import {
+  ApiKeyAuth,
+  AuthConfig,
+  AuthManager,
+  AuthenticationResult,
+  CustomAuth,
+  CustomAuthResult,
+  JwtAuth,
+  SecureStorage,
+} from "../../types/auth";
+import { PluginAuthConfig } from "../../types/plugin";
+import { PluginRegistry } from "../registry";
+
+interface AuthSession {
+  config: AuthConfig;
+  token: string | undefined;
+  expiresAt: number | undefined;
+  headers: Record<string, string>;
+}
+
+export class DefaultAuthManager implements AuthManager {
+  private sessions: Map<string, AuthSession> = new Map();
+
+  // Without a registry (process isolated plugins) custom auth is unavailable
+  constructor(private registry?: PluginRegistry) {}
+
+  async authenticate(
+    pluginId: string,
+    config: AuthConfig
+  ): Promise<AuthenticationResult> {
+    let result: CustomAuthResult;
+
+    try {
+      switch (config.type) {
+        case "api-key":
+          result = this.authenticateApiKey(config);
+          break;
+        case "jwt":
+          result = this.authenticateJwt(config);
+          break;
+        case "custom":
+          result = await this.authenticateCustom(pluginId, config);
+          break;
+        default:
+          result = {
+            success: false,
+            error: `Unsupported auth type: ${(config as any).type}`,
+          };
+      }
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (!result.success) {
+      this.sessions.delete(pluginId);
+      return result;
+    }
+
+    this.sessions.set(pluginId, {
+      config,
+      token: result.token,
+      expiresAt: result.expiresAt,
+      headers:
+        result.headers ??
+        (result.token ? { Authorization: `Bearer ${result.token}` } : {}),
+    });
+
+    const { headers, ...authResult } = result;
+    return authResult;
+  }
+
+  async validateToken(token: string): Promise<boolean> {
+    for (const session of this.sessions.values()) {
+      if (session.token !== token) {
+        continue;
+      }
+
+      if (session.expiresAt !== undefined && session.expiresAt <= Date.now()) {
+        return false;
+      }
+
+      if (session.config.type === "jwt" && session.config.secret) {
+        try {
+          this.verifyJwt(session.config);
+        } catch (error) {
+          return false;
+        }
+      }
+
+      return true;
+    }
+
+    return false;
+  }
+
+  async refreshToken(pluginId: string): Promise<string | null> {
+    const session = this.sessions.get(pluginId);
+    if (!session) {
+      return null;
+    }
+
+    const { config } = session;
+    if (config.type === "jwt") {
+      if (!config.secret) {
+        return null;
+      }
+      // Re-sign the existing claims with a fresh expiry
+      const token = this.resignJwt(
+        config.token,
+        config.secret,
+        config.algorithm
+      );
+      const result = await this.authenticate(pluginId, { ...config, token });
+      return result.success ? token : null;
+    }
+
+    const result = await this.authenticate(pluginId, config);
+    return result.success ? result.token ?? null : null;
+  }
+
+  async revokeToken(pluginId: string): Promise<void> {
+    this.sessions.delete(pluginId);
+  }
+
+  // Returns ready-to-use request headers, refreshing an expired token first
+  async getAuthHeaders(pluginId: string): Promise<Record<string, string>> {
+    let session = this.sessions.get(pluginId);
+    if (!session) {
+      throw new Error(`Plugin ${pluginId} is not authenticated`);
+    }
+
+    if (session.expiresAt !== undefined && session.expiresAt <= Date.now()) {
+      const token = await this.refreshToken(pluginId);
+      session = this.sessions.get(pluginId);
+      if (!token || !session) {
+        throw new Error(`Credentials for plugin ${pluginId} have expired`);
+      }
+    }
+
+    return { ...session.headers };
+  }
+
+  signJwt(
+    payload: Record<string, any>,
+    secret: string,
+    algorithm: JwtAuth["algorithm"] = "HS256",
+    expiresInSeconds?: number
+  ): string {
+    const options: jwt.SignOptions = { algorithm };
+    if (expiresInSeconds !== undefined) {
+      options.expiresIn = expiresInSeconds;
+    }
+    return jwt.sign(payload, secret, options);
+  }
+
+  private authenticateApiKey(config: ApiKeyAuth): CustomAuthResult {
+    if (!config.key) {
+      return { success: false, error: "API key is empty" };
+    }
+
+    const header = config.header ?? "Authorization";
+    const prefix = config.prefix ?? "Bearer";
+
+    return {
+      success: true,
+      token: config.key,
+      headers: { [header]: prefix ? `${prefix} ${config.key}` : config.key },
+    };
+  }
+
+  private authenticateJwt(config: JwtAuth): CustomAuthResult {
+    let payload: jwt.JwtPayload | null;
+
+    if (config.secret) {
+      payload = this.verifyJwt(config);
+    } else {
+      // Without a secret the token can only be checked for shape and expiry
+      const decoded = jwt.decode(config.token, { json: true });
+      if (!decoded) {
+        return { success: false, error: "Malformed JWT" };
+      }
+      if (decoded.exp !== undefined && decoded.exp * 1000 <= Date.now()) {
+        return { success: false, error: "JWT has expired" };
+      }
+      payload = decoded;
+    }
+
+    const result: CustomAuthResult = {
+      success: true,
+      token: config.token,
+      headers: { Authorization: `Bearer ${config.token}` },
+    };
+    if (payload?.exp !== undefined) {
+      result.expiresAt = payload.exp * 1000;
+    }
+    return result;
+  }
+
+  private async authenticateCustom(
+    pluginId: string,
+    config: CustomAuth
+  ): Promise<CustomAuthResult> {
+    if (!this.registry) {
+      throw new Error(
+        `Custom auth handlers are only available to in-process plugins`
+      );
+    }
+
+    const plugin = this.registry.getPlugin(pluginId);
+    if (!plugin) {
+      throw new Error(`Plugin ${pluginId} not found`);
+    }
+
+    const handler = plugin.authHandlers?.[config.handler];
+    if (typeof handler !== "function") {
+      throw new Error(
+        `Plugin ${pluginId} does not provide auth handler "${config.handler}"`
+      );
+    }
+
+    return await handler.call(plugin, config.config);
+  }
+
+  private verifyJwt(config: JwtAuth): jwt.JwtPayload {
+    const algorithm = config.algorithm ?? "HS256";
+    const payload = jwt.verify(config.token, this.verificationKey(config), {
+      algorithms: [algorithm],
+    });
+
+    if (typeof payload === "string") {
+      throw new Error("JWT payload must be a JSON object");
+    }
+    return payload;
+  }
+
+  private verificationKey(config: JwtAuth): string | crypto.KeyObject {
+    // RS256 accepts either key of the pair; the public half is derived from it
+    return config.algorithm === "RS256"
+      ? crypto.createPublicKey(config.secret as string)
+      : (config.secret as string);
+  }
+
+  private resignJwt(
+    token: string,
+    secret: string,
+    algorithm: JwtAuth["algorithm"]
+  ): string {
+    const decoded = jwt.decode(token, { json: true });
+    if (!decoded) {
+      throw new Error("Malformed JWT");
+    }
+
+    const { iat, exp, nbf, ...claims } = decoded;
+    const lifetime =
+      iat !== undefined && exp !== undefined ? exp - iat : undefined;
+    return this.signJwt(claims, secret, algorithm, lifetime);
+  }
+}
+
+// Builds the AuthConfig for a plugin from its manifest's auth section and the
+// credentials held in secure storage. OAuth plugins are handled by the OAuth
+// manager, so "oauth2" yields null.
+export async function resolvePluginAuthConfig(
+  pluginId: string,
+  auth: PluginAuthConfig,
+  secureStorage: SecureStorage
+): Promise<AuthConfig | null> {
+  const credential = (key: string) =>
+    secureStorage.retrieveCredential(pluginId, key);
+
+  switch (auth.type) {
+    case "api-key": {
+      const key = await credential("api_key");
+      if (!key) {
+        return null;
+      }
+      const config: ApiKeyAuth = { type: "api-key", key };
+      if (auth.header !== undefined) {
+        config.header = auth.header;
+      }
+      if (auth.prefix !== undefined) {
+        config.prefix = auth.prefix;
+      }
+      return config;
+    }
+
+    case "jwt": {
+      const token = await credential("jwt_token");
+      if (!token) {
+        return null;
+      }
+      const config: JwtAuth = { type: "jwt", token };
+      const secret = await credential("jwt_secret");
+      if (secret) {
+        config.secret = secret;
+      }
+      if (auth.algorithm) {
+        config.algorithm = auth.algorithm;
+      }
+      return config;
+    }
+
+    case "custom": {
+      // Without a handler, custom auth only declares the credentials to inject
+      if (!auth.handler) {
+        return null;
+      }
+      const values: Record<string, any> = {};
+      for (const field of Object.keys(auth.fields)) {
+        const value = await credential(field);
+        if (value !== null) {
+          values[field] = value;
+        }
+      }
+      return { type: "custom", handler: auth.handler, config: values };
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "@jest/globals";
+import { CredentialCipher } from "./credential-cipher";
+
+describe("CredentialCipher", () => {
+  const oldKey = CredentialCipher.generateMasterKey();
+  const newKey = CredentialCipher.generateMasterKey();
+
+  it("decrypts what it encrypted", () => {
+    const cipher = new CredentialCipher(oldKey);
+    const payload = cipher.encrypt("s3cret");
+
+    expect(payload.keyVersion).toBe(cipher.getKeyVersion());
+    expect(cipher.decrypt(payload)).toBe("s3cret");
+  });
+
+  it("decrypts records of the old key version after a rotation", () => {
+    const before = new CredentialCipher(oldKey);
+    const payload = before.encrypt("s3cret");
+
+    const rotated = before.withNewKey(newKey);
+    expect(rotated.getKeyVersion()).not.toBe(payload.keyVersion);
+    expect(rotated.encrypt("x").keyVersion).toBe(rotated.getKeyVersion());
+    expect(rotated.decrypt(payload)).toBe("s3cret");
+  });
+
+  it("decrypts old key versions given as previous keys", () => {
+    const payload = new CredentialCipher(oldKey).encrypt("s3cret");
+    const restarted = new CredentialCipher(newKey, [oldKey]);
+
+    expect(restarted.decrypt(payload)).toBe("s3cret");
+  });
+
+  it("refuses key versions it has no key for", () => {
+    const payload = new CredentialCipher(oldKey).encrypt("s3cret");
+
+    expect(() => new CredentialCipher(newKey).decrypt(payload)).toThrow(
+      `No master key available for key version ${payload.keyVersion}`
+    );
+  });
+
+  it("tries every key for legacy records without a key version", () => {
+    const { encryptedValue, iv } = new CredentialCipher(oldKey).encrypt(
+      "s3cret"
+    );
+
+    expect(
+      new CredentialCipher(newKey, [oldKey]).decrypt({ encryptedValue, iv })
+    ).toBe("s3cret");
+  });
+});
@@ -0,0 +1,130 @@
+import * as crypto from "crypto";
+
+export interface EncryptedPayload {
+  encryptedValue: string;
+  iv: string;
+  keyVersion: string;
+}
+
+/**
+ * AES-256-GCM encryption shared by the SecureStorage backends. Holds the
+ * current master key plus any previous keys that may still be needed to
+ * decrypt records written before a rotation.
+ */
+export class CredentialCipher {
+  private masterKey: Buffer;
+  private keyVersion: string;
+  // Keys that can still decrypt, by version (includes the current key)
+  private decryptionKeys: Map<string, Buffer> = new Map();
+
+  constructor(masterKey?: string, previousKeys: string[] = []) {
+    if (!masterKey) {
+      throw new Error("Master key is required for secure storage");
+    }
+
+    this.masterKey = CredentialCipher.parseKey(masterKey);
+    this.keyVersion = CredentialCipher.getKeyVersion(this.masterKey);
+    this.decryptionKeys.set(this.keyVersion, this.masterKey);
+
+    for (const previousKey of previousKeys) {
+      const key = CredentialCipher.parseKey(previousKey);
+      this.decryptionKeys.set(CredentialCipher.getKeyVersion(key), key);
+    }
+  }
+
+  static parseKey(hexKey: string): Buffer {
+    const key = Buffer.from(hexKey, "hex");
+    if (key.length !== 32) {
+      throw new Error("Master key must be 32 bytes (64 hex characters)");
+    }
+    return key;
+  }
+
+  static getKeyVersion(key: Buffer): string {
+    return crypto.createHash("sha256").update(key).digest("hex").slice(0, 16);
+  }
+
+  getKeyVersion(): string {
+    return this.keyVersion;
+  }
+
+  // Returns a cipher that encrypts with `newMasterKey` and can still decrypt
+  // everything this one can
+  withNewKey(newMasterKey: string): CredentialCipher {
+    const next = new CredentialCipher(newMasterKey);
+    for (const [version, key] of this.decryptionKeys) {
+      if (!next.decryptionKeys.has(version)) {
+        next.decryptionKeys.set(version, key);
+      }
+    }
+    return next;
+  }
+
+  encrypt(plaintext: string): EncryptedPayload {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.masterKey, iv);
+    cipher.setAAD(iv);
+
+    let encrypted = cipher.update(plaintext, "utf8", "hex");
+    encrypted += cipher.final("hex");
+
+    const authTag = cipher.getAuthTag();
+    const encryptedValue = encrypted + ":" + authTag.toString("hex");
+
+    return {
+      encryptedValue,
+      iv: iv.toString("hex"),
+      keyVersion: this.keyVersion,
+    };
+  }
+
+  decrypt(payload: {
+    encryptedValue: string;
+    iv: string;
+    keyVersion?: string | undefined;
+  }): string {
+    if (payload.keyVersion) {
+      const key = this.decryptionKeys.get(payload.keyVersion);
+      if (!key) {
+        throw new Error(
+          `No master key available for key version ${payload.keyVersion}`
+        );
+      }
+      return this.decryptWithKey(payload.encryptedValue, payload.iv, key);
+    }
+
+    // Legacy records don't say which key encrypted them, so try each one
+    let lastError: unknown;
+    for (const key of this.decryptionKeys.values()) {
+      try {
+        return this.decryptWithKey(payload.encryptedValue, payload.iv, key);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private decryptWithKey(encryptedValue: string, iv: string, key: Buffer) {
+    const [encrypted, authTagHex] = encryptedValue.split(":");
+    if (!encrypted || !authTagHex) {
+      throw new Error("Invalid encrypted value format");
+    }
+
+    const authTag = Buffer.from(authTagHex, "hex");
+    const ivBuffer = Buffer.from(iv, "hex");
+
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, ivBuffer);
+    decipher.setAAD(ivBuffer);
+    decipher.setAuthTag(authTag);
+
+    let decrypted = decipher.update(encrypted, "hex", "utf8");
+    decrypted += decipher.final("utf8");
+
+    return decrypted;
+  }
+
+  static generateMasterKey(): string {
+    return crypto.randomBytes(32).toString("hex");
+  }
+}
@@ -0,0 +1,43 @@
+import { CredentialMetadata } from "../../types/auth";
+
+// Reads only refresh the last-accessed timestamp once per minute, so frequent
+// reads don't turn into a write each time
+const LAST_ACCESS_RESOLUTION = 60 * 1000;
+
+type Timestamp = Date | string | undefined;
+
+export function isExpired(expiresAt: Timestamp): boolean {
+  return expiresAt !== undefined && new Date(expiresAt).getTime() <= Date.now();
+}
+
+export function shouldRecordAccess(lastAccessedAt: Timestamp): boolean {
+  return (
+    lastAccessedAt === undefined ||
+    Date.now() - new Date(lastAccessedAt).getTime() >= LAST_ACCESS_RESOLUTION
+  );
+}
+
+export function buildMetadata(record: {
+  credentialId: string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  expiresAt?: Timestamp;
+  lastAccessedAt?: Timestamp;
+  labels?: Record<string, string> | undefined;
+}): CredentialMetadata {
+  const metadata: CredentialMetadata = {
+    credentialId: record.credentialId,
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(record.updatedAt),
+    labels: record.labels ?? {},
+    expired: isExpired(record.expiresAt),
+  };
+
+  if (record.expiresAt !== undefined) {
+    metadata.expiresAt = new Date(record.expiresAt);
+  }
+  if (record.lastAccessedAt !== undefined) {
+    metadata.lastAccessedAt = new Date(record.lastAccessedAt);
+  }
+  return metadata;
+}
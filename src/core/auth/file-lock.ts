@@ -0,0 +1,61 @@
+import * as fs from "fs";
+
+const LOCK_RETRY_DELAY = 25;
+const LOCK_TIMEOUT = 10000;
+const STALE_LOCK_AGE = 30000;
+
+/**
+ * Runs `operation` while holding an exclusive lock file, so writers in other
+ * processes sharing the same storage directory don't interleave. Lock files
+ * older than STALE_LOCK_AGE are assumed to belong to a crashed process.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT;
+  let handle: fs.promises.FileHandle | null = null;
+
+  while (!handle) {
+    try {
+      handle = await fs.promises.open(lockPath, "wx");
+    } catch (error) {
+      if ((error as any).code !== "EEXIST") {
+        throw error;
+      }
+
+      try {
+        const stats = await fs.promises.stat(lockPath);
+        if (Date.now() - stats.mtimeMs > STALE_LOCK_AGE) {
+          await fs.promises.rm(lockPath, { force: true });
+          continue;
+        }
+      } catch (statError) {
+        // Lock was released between open and stat; retry immediately
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock ${lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_DELAY));
+    }
+  }
+
+  try {
+    return await operation();
+  } finally {
+    await handle.close();
+    await fs.promises.rm(lockPath, { force: true });
+  }
+}
+
+// Replaces `filePath` via a temporary file so readers never see a partial write
+export async function writeFileAtomic(
+  filePath: string,
+  data: string
+): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, data, { mode: 0o600 });
+  await fs.promises.rename(tempPath, filePath);
+}
@@ -0,0 +1,475 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { SecureStorage } from "../../types/auth";
+import {
+  OAuthConfig,
+  OAuthManager,
+  OAuthState,
+  OAuthToken,
+  PKCEChallenge,
+  TokenResponse,
+} from "../../types/oauth";
+import { PluginAuthConfig } from "../../types/plugin";
+import { withFileLock, writeFileAtomic } from "./file-lock";
+
+const DEFAULT_STATE_TTL = 10 * 60 * 1000; // 10 minutes
+const DEFAULT_REFRESH_SKEW = 60 * 1000; // Refresh one minute before expiry
+const DEFAULT_REQUEST_TIMEOUT = 30 * 1000; // For the provider's endpoints
+
+// Stored for tokens issued without "expires_in"
+export const NO_EXPIRY = Number.MAX_SAFE_INTEGER;
+
+// Credential keys an OAuth token is persisted under (see PluginContext.getTokenInfo)
+const TOKEN_CREDENTIAL_KEYS = [
+  "access_token",
+  "refresh_token",
+  "expires_at",
+  "scope",
+  "token_type",
+];
+
+export class ReauthRequiredError extends Error {
+  constructor(
+    public readonly pluginId: string,
+    message: string
+  ) {
+    super(`Re-authentication required for plugin ${pluginId}: ${message}`);
+    this.name = "ReauthRequiredError";
+  }
+}
+
+export async function readStoredToken(
+  secureStorage: SecureStorage,
+  pluginId: string
+): Promise<OAuthToken | null> {
+  const [accessToken, refreshToken, expiresAt, scope, tokenType] =
+    await Promise.all(
+      TOKEN_CREDENTIAL_KEYS.map((key) =>
+        secureStorage.retrieveCredential(pluginId, key)
+      )
+    );
+
+  if (!accessToken) {
+    return null;
+  }
+
+  return {
+    accessToken,
+    refreshToken: refreshToken || undefined,
+    expiresAt: expiresAt ? parseInt(expiresAt, 10) : NO_EXPIRY,
+    scope: scope || "",
+    tokenType: tokenType || "Bearer",
+  };
+}
+
+export type OAuthConfigResolver = (
+  pluginId: string
+) => Promise<OAuthConfig | null>;
+
+function base64Url(buffer: Buffer): string {
+  return buffer
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function generatePKCEChallenge(): PKCEChallenge {
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(
+    crypto.createHash("sha256").update(codeVerifier).digest()
+  );
+
+  return { codeVerifier, codeChallenge, codeChallengeMethod: "S256" };
+}
+
+class FileOAuthStateStore {
+  private writeLock: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  // Serializes load-modify-save cycles, within this process and with other
+  // processes sharing the file, so no state is lost or taken twice
+  private withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeLock.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), {
+        recursive: true,
+      });
+      return await withFileLock(`${this.filePath}.lock`, operation);
+    });
+    this.writeLock = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  private async load(): Promise<Record<string, OAuthState>> {
+    try {
+      const data = await fs.promises.readFile(this.filePath, "utf8");
+      return JSON.parse(data);
+    } catch (error) {
+      if ((error as any).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async save(states: Record<string, OAuthState>): Promise<void> {
+    await writeFileAtomic(this.filePath, JSON.stringify(states, null, 2));
+  }
+
+  private prune(states: Record<string, OAuthState>): void {
+    const now = Date.now();
+    for (const [key, state] of Object.entries(states)) {
+      if (state.expiresAt <= now) {
+        delete states[key];
+      }
+    }
+  }
+
+  async put(state: OAuthState): Promise<void> {
+    await this.withWriteLock(async () => {
+      const states = await this.load();
+      this.prune(states);
+      states[state.state] = state;
+      await this.save(states);
+    });
+  }
+
+  // States are single-use: taking one removes it from the store
+  async take(state: string): Promise<OAuthState | null> {
+    const pending = await this.withWriteLock(async () => {
+      const states = await this.load();
+      const pending = states[state];
+      delete states[state];
+      this.prune(states);
+      await this.save(states);
+      return pending;
+    });
+
+    if (!pending || pending.expiresAt <= Date.now()) {
+      return null;
+    }
+    return pending;
+  }
+}
+
+export class DefaultOAuthManager implements OAuthManager {
+  private stateStore: FileOAuthStateStore;
+  private stateTtl: number;
+  private refreshSkew: number;
+  private requestTimeout: number;
+  private pendingRefreshes: Map<string, Promise<OAuthToken>> = new Map();
+
+  constructor(
+    private secureStorage: SecureStorage,
+    private resolveConfig: OAuthConfigResolver,
+    options: {
+      stateFile?: string;
+      stateTtl?: number;
+      refreshSkew?: number;
+      requestTimeout?: number;
+    } = {}
+  ) {
+    this.stateStore = new FileOAuthStateStore(
+      options.stateFile ?? "./data/oauth/pending-states.json"
+    );
+    this.stateTtl = options.stateTtl ?? DEFAULT_STATE_TTL;
+    this.refreshSkew = options.refreshSkew ?? DEFAULT_REFRESH_SKEW;
+    this.requestTimeout = options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+  }
+
+  async getConfig(pluginId: string): Promise<OAuthConfig | null> {
+    return await this.resolveConfig(pluginId);
+  }
+
+  // Returns a usable access token, refreshing it first when it is expired or
+  // about to expire. Throws ReauthRequiredError when no valid token can be had.
+  async getValidAccessToken(pluginId: string): Promise<string> {
+    const token = await readStoredToken(this.secureStorage, pluginId);
+    if (!token) {
+      throw new ReauthRequiredError(pluginId, "no access token available");
+    }
+
+    if (token.expiresAt - this.refreshSkew > Date.now()) {
+      return token.accessToken;
+    }
+
+    if (!token.refreshToken) {
+      throw new ReauthRequiredError(
+        pluginId,
+        "access token expired and no refresh token is available"
+      );
+    }
+
+    const refreshed = await this.refreshShared(pluginId, token.refreshToken);
+    return refreshed.accessToken;
+  }
+
+  // Concurrent callers for the same plugin share a single refresh request
+  private refreshShared(
+    pluginId: string,
+    refreshToken: string
+  ): Promise<OAuthToken> {
+    let pending = this.pendingRefreshes.get(pluginId);
+    if (!pending) {
+      pending = this.refreshToken(pluginId, refreshToken)
+        .catch((error) => {
+          throw new ReauthRequiredError(
+            pluginId,
+            `token refresh failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        })
+        .finally(() => {
+          this.pendingRefreshes.delete(pluginId);
+        });
+      this.pendingRefreshes.set(pluginId, pending);
+    }
+    return pending;
+  }
+
+  async initiateFlow(
+    pluginId: string,
+    config: OAuthConfig
+  ): Promise<{ authUrl: string; state: string }> {
+    const state = base64Url(crypto.randomBytes(24));
+    const now = Date.now();
+
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
+      scope: config.scopes.join(" "),
+      state,
+    });
+
+    const pending: OAuthState = {
+      pluginId,
+      state,
+      createdAt: now,
+      expiresAt: now + this.stateTtl,
+    };
+
+    if (config.pkce !== false) {
+      const challenge = generatePKCEChallenge();
+      pending.codeVerifier = challenge.codeVerifier;
+      params.set("code_challenge", challenge.codeChallenge);
+      params.set("code_challenge_method", challenge.codeChallengeMethod);
+    }
+
+    await this.stateStore.put(pending);
+
+    const authUrl = new URL(config.authorizationUrl);
+    for (const [key, value] of params) {
+      authUrl.searchParams.set(key, value);
+    }
+
+    return { authUrl: authUrl.toString(), state };
+  }
+
+  async handleCallback(code: string, state: string): Promise<OAuthToken> {
+    const pending = await this.stateStore.take(state);
+    if (!pending) {
+      throw new Error("Invalid or expired OAuth state");
+    }
+
+    const config = await this.requireConfig(pending.pluginId);
+    const params = new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    });
+
+    if (pending.codeVerifier) {
+      params.set("code_verifier", pending.codeVerifier);
+    }
+
+    const token = await this.requestToken(config, params);
+    await this.storeToken(pending.pluginId, token);
+    return token;
+  }
+
+  async refreshToken(
+    pluginId: string,
+    refreshToken: string
+  ): Promise<OAuthToken> {
+    const config = await this.requireConfig(pluginId);
+    const params = new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    });
+
+    const token = await this.requestToken(config, params);
+
+    // Providers that don't rotate refresh tokens omit them from the response
+    if (!token.refreshToken) {
+      token.refreshToken = refreshToken;
+    }
+
+    await this.storeToken(pluginId, token);
+    return token;
+  }
+
+  async revokeToken(pluginId: string): Promise<void> {
+    const config = await this.resolveConfig(pluginId);
+    const accessToken = await this.secureStorage.retrieveCredential(
+      pluginId,
+      "access_token"
+    );
+
+    if (config?.revokeUrl && accessToken) {
+      try {
+        await fetch(config.revokeUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams({
+            token: accessToken,
+            client_id: config.clientId,
+            client_secret: config.clientSecret,
+          }),
+          signal: AbortSignal.timeout(this.requestTimeout),
+        });
+      } catch (error) {
+        console.warn(`Failed to revoke token for plugin ${pluginId}:`, error);
+      }
+    }
+
+    for (const key of TOKEN_CREDENTIAL_KEYS) {
+      await this.secureStorage.deleteCredential(pluginId, key);
+    }
+  }
+
+  private async requireConfig(pluginId: string): Promise<OAuthConfig> {
+    const config = await this.resolveConfig(pluginId);
+    if (!config) {
+      throw new Error(`Plugin ${pluginId} is not configured for OAuth`);
+    }
+    return config;
+  }
+
+  private async requestToken(
+    config: OAuthConfig,
+    params: URLSearchParams
+  ): Promise<OAuthToken> {
+    const response = await fetch(config.tokenUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: params,
+      // A hanging provider would otherwise hold up every caller sharing the
+      // refresh
+      signal: AbortSignal.timeout(this.requestTimeout),
+    });
+
+    let body: TokenResponse;
+    try {
+      body = (await response.json()) as TokenResponse;
+    } catch (error) {
+      throw new Error(
+        `Token endpoint returned an invalid response: ${response.status} ${response.statusText}`
+      );
+    }
+
+    if (!response.ok || body.error || !body.access_token) {
+      throw new Error(
+        `Token request failed: ${
+          body.error_description || body.error || response.statusText
+        }`
+      );
+    }
+
+    return {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token,
+      expiresAt: body.expires_in
+        ? Date.now() + body.expires_in * 1000
+        : NO_EXPIRY,
+      scope: body.scope ?? config.scopes.join(" "),
+      tokenType: body.token_type || "Bearer",
+    };
+  }
+
+  private async storeToken(pluginId: string, token: OAuthToken): Promise<void> {
+    await this.secureStorage.storeCredential(
+      pluginId,
+      "access_token",
+      token.accessToken
+    );
+    if (token.refreshToken) {
+      await this.secureStorage.storeCredential(
+        pluginId,
+        "refresh_token",
+        token.refreshToken
+      );
+    }
+    await this.secureStorage.storeCredential(
+      pluginId,
+      "expires_at",
+      String(token.expiresAt)
+    );
+    await this.secureStorage.storeCredential(pluginId, "scope", token.scope);
+    await this.secureStorage.storeCredential(
+      pluginId,
+      "token_type",
+      token.tokenType
+    );
+  }
+}
+
+// Builds OAuth configs from each plugin's manifest ("auth.oauth") combined
+// with the client credentials held in secure storage. `getAuthConfig` looks up
+// the manifest's auth section, so both runtimes can share this resolver.
+export function createPluginOAuthConfigResolver(
+  getAuthConfig: (pluginId: string) => PluginAuthConfig | undefined,
+  secureStorage: SecureStorage,
+  redirectUri: string
+): OAuthConfigResolver {
+  return async (pluginId: string) => {
+    const oauth = getAuthConfig(pluginId)?.oauth;
+    if (!oauth) {
+      return null;
+    }
+
+    const clientId = await secureStorage.retrieveCredential(
+      pluginId,
+      "client_id"
+    );
+    const clientSecret = await secureStorage.retrieveCredential(
+      pluginId,
+      "client_secret"
+    );
+    if (!clientId || !clientSecret) {
+      throw new Error(
+        `Plugin ${pluginId} requires "client_id" and "client_secret" credentials for OAuth`
+      );
+    }
+
+    const config: OAuthConfig = {
+      provider: oauth.provider,
+      clientId,
+      clientSecret,
+      scopes: oauth.scopes,
+      authorizationUrl: oauth.authorizationUrl,
+      tokenUrl: oauth.tokenUrl,
+      redirectUri,
+    };
+    if (oauth.revokeUrl) {
+      config.revokeUrl = oauth.revokeUrl;
+    }
+    if (oauth.pkce !== undefined) {
+      config.pkce = oauth.pkce;
+    }
+    return config;
+  };
+}
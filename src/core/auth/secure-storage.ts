@@ -1,22 +1,31 @@
-import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
-import { SecureStorage, EncryptedCredential } from "../../types/auth";
+import {
+  ManagedSecureStorage,
+  EncryptedCredential,
+  KeyRotationResult,
+  CredentialOptions,
+  CredentialMetadata,
+} from "../../types/auth";
+import { CredentialCipher } from "./credential-cipher";
+import {
+  buildMetadata,
+  isExpired,
+  shouldRecordAccess,
+} from "./credential-metadata";
+import { withFileLock, writeFileAtomic } from "./file-lock";
 
-export class FileSecureStorage implements SecureStorage {
-  private masterKey: Buffer;
+export class FileSecureStorage implements ManagedSecureStorage {
+  private cipher: CredentialCipher;
   private storageDir: string;
+  private writeLock: Promise<void> = Promise.resolve();
 
-  constructor(masterKey?: string, storageDir: string = "./data/credentials") {
-    if (!masterKey) {
-      throw new Error("Master key is required for secure storage");
-    }
-
-    this.masterKey = Buffer.from(masterKey, "hex");
-    if (this.masterKey.length !== 32) {
-      throw new Error("Master key must be 32 bytes (64 hex characters)");
-    }
-
+  constructor(
+    masterKey?: string,
+    storageDir: string = "./data/credentials",
+    previousKeys: string[] = []
+  ) {
+    this.cipher = new CredentialCipher(masterKey, previousKeys);
     this.storageDir = storageDir;
     this.ensureStorageDir();
   }
@@ -29,44 +38,21 @@ export class FileSecureStorage implements SecureStorage {
     }
   }
 
-  private encrypt(plaintext: string): { encryptedValue: string; iv: string } {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv("aes-256-gcm", this.masterKey, iv);
-    cipher.setAAD(iv);
-
-    let encrypted = cipher.update(plaintext, "utf8", "hex");
-    encrypted += cipher.final("hex");
-
-    const authTag = cipher.getAuthTag();
-    const encryptedValue = encrypted + ":" + authTag.toString("hex");
-
-    return {
-      encryptedValue,
-      iv: iv.toString("hex"),
-    };
-  }
-
-  private decrypt(encryptedValue: string, iv: string): string {
-    const [encrypted, authTagHex] = encryptedValue.split(":");
-    if (!encrypted || !authTagHex) {
-      throw new Error("Invalid encrypted value format");
-    }
-
-    const authTag = Buffer.from(authTagHex, "hex");
-    const ivBuffer = Buffer.from(iv, "hex");
-
-    const decipher = crypto.createDecipheriv(
-      "aes-256-gcm",
-      this.masterKey,
-      ivBuffer
+  // Serializes writes within this process; the lock file covers other
+  // processes sharing the same directory
+  private withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeLock.then(async () => {
+      await this.ensureStorageDir();
+      return await withFileLock(
+        path.join(this.storageDir, ".lock"),
+        operation
+      );
+    });
+    this.writeLock = result.then(
+      () => undefined,
+      () => undefined
     );
-    decipher.setAAD(ivBuffer);
-    decipher.setAuthTag(authTag);
-
-    let decrypted = decipher.update(encrypted, "hex", "utf8");
-    decrypted += decipher.final("utf8");
-
-    return decrypted;
+    return result;
   }
 
   private getCredentialPath(pluginId: string): string {
@@ -93,29 +79,48 @@ export class FileSecureStorage implements SecureStorage {
     pluginId: string,
     credentials: Record<string, EncryptedCredential>
   ): Promise<void> {
-    const filePath = this.getCredentialPath(pluginId);
-    await fs.promises.writeFile(filePath, JSON.stringify(credentials, null, 2));
+    await writeFileAtomic(
+      this.getCredentialPath(pluginId),
+      JSON.stringify(credentials, null, 2)
+    );
   }
 
   async storeCredential(
     pluginId: string,
     credentialId: string,
-    value: string
+    value: string,
+    options: CredentialOptions = {}
   ): Promise<void> {
-    const credentials = await this.loadCredentials(pluginId);
-    const { encryptedValue, iv } = this.encrypt(value);
-
-    credentials[credentialId] = {
-      id: `${pluginId}:${credentialId}`,
-      pluginId,
-      credentialId,
-      encryptedValue,
-      iv,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    await this.saveCredentials(pluginId, credentials);
+    await this.withWriteLock(async () => {
+      const credentials = await this.loadCredentials(pluginId);
+      const existing = credentials[credentialId];
+      const { encryptedValue, iv, keyVersion } = this.cipher.encrypt(value);
+      const now = new Date();
+
+      const credential: EncryptedCredential = {
+        ...existing,
+        id: `${pluginId}:${credentialId}`,
+        pluginId,
+        credentialId,
+        encryptedValue,
+        iv,
+        keyVersion,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      // The expiry is replaced, the labels are kept unless given
+      if (options.expiresAt) {
+        credential.expiresAt = options.expiresAt;
+      } else {
+        delete credential.expiresAt;
+      }
+      if (options.labels) {
+        credential.labels = options.labels;
+      }
+      credentials[credentialId] = credential;
+
+      await this.saveCredentials(pluginId, credentials);
+    });
   }
 
   async retrieveCredential(
@@ -125,12 +130,16 @@ export class FileSecureStorage implements SecureStorage {
     const credentials = await this.loadCredentials(pluginId);
     const credential = credentials[credentialId];
 
-    if (!credential) {
+    if (!credential || isExpired(credential.expiresAt)) {
       return null;
     }
 
     try {
-      return this.decrypt(credential.encryptedValue, credential.iv);
+      const value = this.cipher.decrypt(credential);
+      if (shouldRecordAccess(credential.lastAccessedAt)) {
+        await this.recordAccess(pluginId, credentialId);
+      }
+      return value;
     } catch (error) {
       console.error(
         `Failed to decrypt credential ${credentialId} for plugin ${pluginId}:`,
@@ -140,13 +149,37 @@ export class FileSecureStorage implements SecureStorage {
     }
   }
 
+  private async recordAccess(
+    pluginId: string,
+    credentialId: string
+  ): Promise<void> {
+    try {
+      await this.withWriteLock(async () => {
+        const credentials = await this.loadCredentials(pluginId);
+        const credential = credentials[credentialId];
+        if (credential) {
+          credential.lastAccessedAt = new Date();
+          await this.saveCredentials(pluginId, credentials);
+        }
+      });
+    } catch (error) {
+      // Access tracking must never make a read fail
+      console.warn(
+        `Failed to record access to credential ${credentialId} for plugin ${pluginId}:`,
+        error
+      );
+    }
+  }
+
   async deleteCredential(
     pluginId: string,
     credentialId: string
   ): Promise<void> {
-    const credentials = await this.loadCredentials(pluginId);
-    delete credentials[credentialId];
-    await this.saveCredentials(pluginId, credentials);
+    await this.withWriteLock(async () => {
+      const credentials = await this.loadCredentials(pluginId);
+      delete credentials[credentialId];
+      await this.saveCredentials(pluginId, credentials);
+    });
   }
 
   async listCredentials(pluginId: string): Promise<string[]> {
@@ -154,7 +187,84 @@ export class FileSecureStorage implements SecureStorage {
     return Object.keys(credentials);
   }
 
+  async describeCredentials(pluginId: string): Promise<CredentialMetadata[]> {
+    const credentials = await this.loadCredentials(pluginId);
+    return Object.values(credentials).map(buildMetadata);
+  }
+
+  /**
+   * Re-encrypts every stored credential under a new master key.
+   *
+   * All files are decrypted and re-encrypted into temporary files first, so
+   * nothing is changed if any credential can't be decrypted. The temporary
+   * files then replace the originals. Because every record carries its key
+   * version, a crash part-way through that step leaves storage readable as
+   * long as both keys are configured (MASTER_KEY and MASTER_KEY_PREVIOUS).
+   */
+  async rotateMasterKey(newMasterKey: string): Promise<KeyRotationResult> {
+    const nextCipher = this.cipher.withNewKey(newMasterKey);
+
+    return await this.withWriteLock(async () => {
+      const files = (await fs.promises.readdir(this.storageDir)).filter(
+        (file) => file.endsWith(".json")
+      );
+
+      const staged: Array<{ tempPath: string; filePath: string }> = [];
+      let credentialCount = 0;
+
+      try {
+        for (const file of files) {
+          const pluginId = path.basename(file, ".json");
+          const credentials = await this.loadCredentials(pluginId);
+
+          for (const credential of Object.values(credentials)) {
+            const plaintext = this.cipher.decrypt(credential);
+            Object.assign(credential, nextCipher.encrypt(plaintext));
+            credentialCount++;
+          }
+
+          const filePath = this.getCredentialPath(pluginId);
+          const tempPath = `${filePath}.rotate.tmp`;
+          await fs.promises.writeFile(
+            tempPath,
+            JSON.stringify(credentials, null, 2),
+            { mode: 0o600 }
+          );
+          staged.push({ tempPath, filePath });
+        }
+      } catch (error) {
+        await Promise.all(
+          staged.map(({ tempPath }) =>
+            fs.promises.rm(tempPath, { force: true })
+          )
+        );
+        throw new Error(
+          `Key rotation aborted, no credentials were changed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+
+      for (const { tempPath, filePath } of staged) {
+        await fs.promises.rename(tempPath, filePath);
+      }
+
+      // The old key stays available for decryption until the process restarts
+      this.cipher = nextCipher;
+
+      return {
+        keyVersion: nextCipher.getKeyVersion(),
+        pluginCount: staged.length,
+        credentialCount,
+      };
+    });
+  }
+
+  getKeyVersion(): string {
+    return this.cipher.getKeyVersion();
+  }
+
   static generateMasterKey(): string {
-    return crypto.randomBytes(32).toString("hex");
+    return CredentialCipher.generateMasterKey();
   }
 }
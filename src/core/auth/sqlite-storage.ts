@@ -0,0 +1,263 @@
+import * as fs from "fs";
+import * as path from "path";
+import Database from "better-sqlite3";
+import {
+  ManagedSecureStorage,
+  KeyRotationResult,
+  CredentialOptions,
+  CredentialMetadata,
+} from "../../types/auth";
+import { CredentialCipher } from "./credential-cipher";
+import {
+  buildMetadata,
+  isExpired,
+  shouldRecordAccess,
+} from "./credential-metadata";
+
+interface CredentialRow {
+  plugin_id: string;
+  credential_id: string;
+  encrypted_value: string;
+  iv: string;
+  key_version: string;
+  created_at: string;
+  updated_at: string;
+  expires_at: string | null;
+  last_accessed_at: string | null;
+  labels: string | null;
+}
+
+// Columns added after the first release of this backend
+const MIGRATED_COLUMNS: Record<string, string> = {
+  expires_at: "TEXT",
+  last_accessed_at: "TEXT",
+  labels: "TEXT",
+};
+
+/**
+ * SecureStorage backed by a SQLite database. Each credential is a row that is
+ * encrypted individually; SQLite's own locking and transactions make writes
+ * from concurrent callers (and other processes) safe.
+ */
+export class SqliteSecureStorage implements ManagedSecureStorage {
+  private cipher: CredentialCipher;
+  private db: Database.Database;
+
+  constructor(
+    masterKey?: string,
+    databasePath: string = "./data/credentials.db",
+    previousKeys: string[] = []
+  ) {
+    this.cipher = new CredentialCipher(masterKey, previousKeys);
+
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    this.db = new Database(databasePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 5000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS credentials (
+        plugin_id TEXT NOT NULL,
+        credential_id TEXT NOT NULL,
+        encrypted_value TEXT NOT NULL,
+        iv TEXT NOT NULL,
+        key_version TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        expires_at TEXT,
+        last_accessed_at TEXT,
+        labels TEXT,
+        PRIMARY KEY (plugin_id, credential_id)
+      )
+    `);
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const columns = new Set(
+      (
+        this.db.prepare("PRAGMA table_info(credentials)").all() as Array<{
+          name: string;
+        }>
+      ).map((column) => column.name)
+    );
+
+    for (const [name, type] of Object.entries(MIGRATED_COLUMNS)) {
+      if (!columns.has(name)) {
+        this.db.exec(`ALTER TABLE credentials ADD COLUMN ${name} ${type}`);
+      }
+    }
+  }
+
+  async storeCredential(
+    pluginId: string,
+    credentialId: string,
+    value: string,
+    options: CredentialOptions = {}
+  ): Promise<void> {
+    const { encryptedValue, iv, keyVersion } = this.cipher.encrypt(value);
+    const now = new Date().toISOString();
+
+    // Labels keep their previous values unless given; the expiry is replaced
+    this.db
+      .prepare(
+        `INSERT INTO credentials
+           (plugin_id, credential_id, encrypted_value, iv, key_version,
+            created_at, updated_at, expires_at, labels)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (plugin_id, credential_id) DO UPDATE SET
+           encrypted_value = excluded.encrypted_value,
+           iv = excluded.iv,
+           key_version = excluded.key_version,
+           updated_at = excluded.updated_at,
+           expires_at = excluded.expires_at,
+           labels = COALESCE(excluded.labels, labels)`
+      )
+      .run(
+        pluginId,
+        credentialId,
+        encryptedValue,
+        iv,
+        keyVersion,
+        now,
+        now,
+        options.expiresAt?.toISOString() ?? null,
+        options.labels ? JSON.stringify(options.labels) : null
+      );
+  }
+
+  async retrieveCredential(
+    pluginId: string,
+    credentialId: string
+  ): Promise<string | null> {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM credentials WHERE plugin_id = ? AND credential_id = ?`
+      )
+      .get(pluginId, credentialId) as CredentialRow | undefined;
+
+    if (!row || isExpired(row.expires_at ?? undefined)) {
+      return null;
+    }
+
+    try {
+      const value = this.cipher.decrypt({
+        encryptedValue: row.encrypted_value,
+        iv: row.iv,
+        keyVersion: row.key_version,
+      });
+
+      if (shouldRecordAccess(row.last_accessed_at ?? undefined)) {
+        this.db
+          .prepare(
+            `UPDATE credentials SET last_accessed_at = ?
+             WHERE plugin_id = ? AND credential_id = ?`
+          )
+          .run(new Date().toISOString(), pluginId, credentialId);
+      }
+      return value;
+    } catch (error) {
+      console.error(
+        `Failed to decrypt credential ${credentialId} for plugin ${pluginId}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  async deleteCredential(
+    pluginId: string,
+    credentialId: string
+  ): Promise<void> {
+    this.db
+      .prepare(
+        "DELETE FROM credentials WHERE plugin_id = ? AND credential_id = ?"
+      )
+      .run(pluginId, credentialId);
+  }
+
+  async listCredentials(pluginId: string): Promise<string[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT credential_id FROM credentials WHERE plugin_id = ? ORDER BY credential_id"
+      )
+      .all(pluginId) as Array<Pick<CredentialRow, "credential_id">>;
+    return rows.map((row) => row.credential_id);
+  }
+
+  async describeCredentials(pluginId: string): Promise<CredentialMetadata[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM credentials WHERE plugin_id = ? ORDER BY credential_id"
+      )
+      .all(pluginId) as CredentialRow[];
+
+    return rows.map((row) =>
+      buildMetadata({
+        credentialId: row.credential_id,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        expiresAt: row.expires_at ?? undefined,
+        lastAccessedAt: row.last_accessed_at ?? undefined,
+        labels: row.labels ? JSON.parse(row.labels) : {},
+      })
+    );
+  }
+
+  // Re-encrypts every row in a single transaction: either all credentials
+  // move to the new key or none do
+  async rotateMasterKey(newMasterKey: string): Promise<KeyRotationResult> {
+    const nextCipher = this.cipher.withNewKey(newMasterKey);
+    const update = this.db.prepare(
+      `UPDATE credentials SET encrypted_value = ?, iv = ?, key_version = ?
+       WHERE plugin_id = ? AND credential_id = ?`
+    );
+
+    const rotate = this.db.transaction(() => {
+      const rows = this.db
+        .prepare("SELECT * FROM credentials")
+        .all() as CredentialRow[];
+      const plugins = new Set<string>();
+
+      for (const row of rows) {
+        const plaintext = this.cipher.decrypt({
+          encryptedValue: row.encrypted_value,
+          iv: row.iv,
+          keyVersion: row.key_version,
+        });
+        const { encryptedValue, iv, keyVersion } = nextCipher.encrypt(plaintext);
+        update.run(
+          encryptedValue,
+          iv,
+          keyVersion,
+          row.plugin_id,
+          row.credential_id
+        );
+        plugins.add(row.plugin_id);
+      }
+
+      return { pluginCount: plugins.size, credentialCount: rows.length };
+    });
+
+    let counts: { pluginCount: number; credentialCount: number };
+    try {
+      counts = rotate.immediate();
+    } catch (error) {
+      throw new Error(
+        `Key rotation aborted, no credentials were changed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    this.cipher = nextCipher;
+    return { keyVersion: nextCipher.getKeyVersion(), ...counts };
+  }
+
+  getKeyVersion(): string {
+    return this.cipher.getKeyVersion();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,54 @@
+import { ManagedSecureStorage } from "../../types/auth";
+import { FileSecureStorage } from "./secure-storage";
+import { SqliteSecureStorage } from "./sqlite-storage";
+import { EncryptedVaultStorage } from "./vault-storage";
+
+export type SecureStorageBackend = "file" | "sqlite" | "vault";
+
+export interface SecureStorageOptions {
+  backend?: SecureStorageBackend;
+  masterKey: string;
+  previousKeys?: string[];
+  // Directory (file), database file (sqlite) or vault file (vault)
+  location?: string;
+}
+
+export function createSecureStorage(
+  options: SecureStorageOptions
+): ManagedSecureStorage {
+  const { masterKey, location } = options;
+  const previousKeys = options.previousKeys ?? [];
+
+  switch (options.backend ?? "file") {
+    case "file":
+      return new FileSecureStorage(masterKey, location, previousKeys);
+    case "sqlite":
+      return new SqliteSecureStorage(masterKey, location, previousKeys);
+    case "vault":
+      return new EncryptedVaultStorage(masterKey, location, previousKeys);
+    default:
+      throw new Error(
+        `Unknown secure storage backend "${options.backend}". Expected file, sqlite or vault.`
+      );
+  }
+}
+
+// Reads SECURE_STORAGE_BACKEND, SECURE_STORAGE_PATH and MASTER_KEY_PREVIOUS
+export function secureStorageOptionsFromEnv(
+  masterKey: string,
+  env: NodeJS.ProcessEnv = process.env
+): SecureStorageOptions {
+  const options: SecureStorageOptions = {
+    backend: (env.SECURE_STORAGE_BACKEND || "file") as SecureStorageBackend,
+    masterKey,
+    previousKeys: (env.MASTER_KEY_PREVIOUS || "")
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean),
+  };
+
+  if (env.SECURE_STORAGE_PATH) {
+    options.location = env.SECURE_STORAGE_PATH;
+  }
+  return options;
+}
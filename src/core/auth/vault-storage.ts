@@ -0,0 +1,237 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ManagedSecureStorage,
+  KeyRotationResult,
+  CredentialOptions,
+  CredentialMetadata,
+} from "../../types/auth";
+import { CredentialCipher, EncryptedPayload } from "./credential-cipher";
+import {
+  buildMetadata,
+  isExpired,
+  shouldRecordAccess,
+} from "./credential-metadata";
+import { withFileLock, writeFileAtomic } from "./file-lock";
+
+interface VaultEntry {
+  value: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt?: string;
+  lastAccessedAt?: string;
+  labels?: Record<string, string>;
+}
+
+// pluginId -> credentialId -> entry
+type VaultContents = Record<string, Record<string, VaultEntry>>;
+
+interface VaultFile extends EncryptedPayload {
+  format: 1;
+}
+
+/**
+ * SecureStorage that keeps all credentials in one encrypted file. The whole
+ * document is encrypted, so not even plugin or credential IDs are visible on
+ * disk. Every change is a locked read-modify-write followed by an atomic
+ * rename of the vault file.
+ */
+export class EncryptedVaultStorage implements ManagedSecureStorage {
+  private cipher: CredentialCipher;
+  private vaultPath: string;
+  private writeLock: Promise<void> = Promise.resolve();
+
+  constructor(
+    masterKey?: string,
+    vaultPath: string = "./data/credentials.vault",
+    previousKeys: string[] = []
+  ) {
+    this.cipher = new CredentialCipher(masterKey, previousKeys);
+    this.vaultPath = vaultPath;
+    fs.mkdirSync(path.dirname(vaultPath), { recursive: true });
+  }
+
+  private async load(
+    cipher: CredentialCipher = this.cipher
+  ): Promise<VaultContents> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.vaultPath, "utf8");
+    } catch (error) {
+      if ((error as any).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+
+    const file: VaultFile = JSON.parse(raw);
+    return JSON.parse(cipher.decrypt(file));
+  }
+
+  private async save(
+    contents: VaultContents,
+    cipher: CredentialCipher = this.cipher
+  ): Promise<void> {
+    const file: VaultFile = {
+      format: 1,
+      ...cipher.encrypt(JSON.stringify(contents)),
+    };
+    await writeFileAtomic(this.vaultPath, JSON.stringify(file, null, 2));
+  }
+
+  private withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeLock.then(() =>
+      withFileLock(`${this.vaultPath}.lock`, operation)
+    );
+    this.writeLock = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  async storeCredential(
+    pluginId: string,
+    credentialId: string,
+    value: string,
+    options: CredentialOptions = {}
+  ): Promise<void> {
+    await this.withWriteLock(async () => {
+      const contents = await this.load();
+      const now = new Date().toISOString();
+      const credentials = (contents[pluginId] ??= {});
+      const existing = credentials[credentialId];
+
+      const entry: VaultEntry = {
+        ...existing,
+        value,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      // The expiry is replaced, the labels are kept unless given
+      if (options.expiresAt) {
+        entry.expiresAt = options.expiresAt.toISOString();
+      } else {
+        delete entry.expiresAt;
+      }
+      if (options.labels) {
+        entry.labels = options.labels;
+      }
+      credentials[credentialId] = entry;
+
+      await this.save(contents);
+    });
+  }
+
+  async retrieveCredential(
+    pluginId: string,
+    credentialId: string
+  ): Promise<string | null> {
+    try {
+      const contents = await this.load();
+      const entry = contents[pluginId]?.[credentialId];
+      if (!entry || isExpired(entry.expiresAt)) {
+        return null;
+      }
+
+      if (shouldRecordAccess(entry.lastAccessedAt)) {
+        await this.recordAccess(pluginId, credentialId);
+      }
+      return entry.value;
+    } catch (error) {
+      console.error(
+        `Failed to decrypt credential ${credentialId} for plugin ${pluginId}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  private async recordAccess(
+    pluginId: string,
+    credentialId: string
+  ): Promise<void> {
+    try {
+      await this.withWriteLock(async () => {
+        const contents = await this.load();
+        const entry = contents[pluginId]?.[credentialId];
+        if (entry) {
+          entry.lastAccessedAt = new Date().toISOString();
+          await this.save(contents);
+        }
+      });
+    } catch (error) {
+      // Access tracking must never make a read fail
+      console.warn(
+        `Failed to record access to credential ${credentialId} for plugin ${pluginId}:`,
+        error
+      );
+    }
+  }
+
+  async deleteCredential(
+    pluginId: string,
+    credentialId: string
+  ): Promise<void> {
+    await this.withWriteLock(async () => {
+      const contents = await this.load();
+      const credentials = contents[pluginId];
+      if (!credentials || !(credentialId in credentials)) {
+        return;
+      }
+
+      delete credentials[credentialId];
+      if (Object.keys(credentials).length === 0) {
+        delete contents[pluginId];
+      }
+      await this.save(contents);
+    });
+  }
+
+  async listCredentials(pluginId: string): Promise<string[]> {
+    const contents = await this.load();
+    return Object.keys(contents[pluginId] ?? {});
+  }
+
+  async describeCredentials(pluginId: string): Promise<CredentialMetadata[]> {
+    const contents = await this.load();
+    return Object.entries(contents[pluginId] ?? {}).map(
+      ([credentialId, { value, ...entry }]) =>
+        buildMetadata({ credentialId, ...entry })
+    );
+  }
+
+  // The vault is a single file, so rotation is one atomic rename
+  async rotateMasterKey(newMasterKey: string): Promise<KeyRotationResult> {
+    const nextCipher = this.cipher.withNewKey(newMasterKey);
+
+    return await this.withWriteLock(async () => {
+      let contents: VaultContents;
+      try {
+        contents = await this.load();
+      } catch (error) {
+        throw new Error(
+          `Key rotation aborted, no credentials were changed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+
+      await this.save(contents, nextCipher);
+      this.cipher = nextCipher;
+
+      return {
+        keyVersion: nextCipher.getKeyVersion(),
+        pluginCount: Object.keys(contents).length,
+        credentialCount: Object.values(contents).reduce(
+          (count, credentials) => count + Object.keys(credentials).length,
+          0
+        ),
+      };
+    });
+  }
+
+  getKeyVersion(): string {
+    return this.cipher.getKeyVersion();
+  }
+}
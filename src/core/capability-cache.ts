@@ -0,0 +1,134 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import {
+  Prompt,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { writeFileAtomic } from "./auth/file-lock";
+
+// Everything a plugin process lists when it starts
+export interface PluginCapabilities {
+  tools: Tool[];
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+  prompts: Prompt[];
+}
+
+interface CacheEntry extends PluginCapabilities {
+  fingerprint: string;
+  cachedAt: string;
+}
+
+/**
+ * Capabilities of each plugin as listed by its last process, so that lazily
+ * started plugins can be advertised without spawning them. An entry is only
+ * used while the plugin's fingerprint (see pluginFingerprint) is unchanged.
+ */
+export class CapabilityCache {
+  private entries: Record<string, CacheEntry> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private filePath: string = "./data/plugin-capabilities.json"
+  ) {}
+
+  async get(
+    pluginName: string,
+    fingerprint: string
+  ): Promise<PluginCapabilities | null> {
+    const entry = (await this.load())[pluginName];
+    if (!entry || entry.fingerprint !== fingerprint) {
+      return null;
+    }
+
+    const { tools, resources, resourceTemplates, prompts } = entry;
+    return { tools, resources, resourceTemplates, prompts };
+  }
+
+  async set(
+    pluginName: string,
+    fingerprint: string,
+    capabilities: PluginCapabilities
+  ): Promise<void> {
+    const entries = await this.load();
+    entries[pluginName] = {
+      ...capabilities,
+      fingerprint,
+      cachedAt: new Date().toISOString(),
+    };
+
+    // Plugins starting together must not interleave their writes. A failed
+    // write is reported to its caller only, later ones still try.
+    const saved = this.saving.then(() => this.save(entries));
+    this.saving = saved.catch(() => undefined);
+    await saved;
+  }
+
+  private async load(): Promise<Record<string, CacheEntry>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    try {
+      const data = await fs.readFile(this.filePath, "utf8");
+      this.entries = JSON.parse(data);
+    } catch (error) {
+      if ((error as any).code !== "ENOENT") {
+        console.warn(`Ignoring unreadable capability cache: ${error}`);
+      }
+      this.entries = {};
+    }
+
+    return this.entries!;
+  }
+
+  private async save(entries: Record<string, CacheEntry>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFileAtomic(this.filePath, JSON.stringify(entries, null, 2));
+  }
+}
+
+// Changes whenever a file in the plugin's directory is added, removed or
+// modified, its package.json and lockfile included. node_modules is left out,
+// as installing dependencies changes the lockfile. Returns null if the
+// directory cannot be read, in which case nothing should be cached.
+export async function pluginFingerprint(
+  directory: string
+): Promise<string | null> {
+  try {
+    const files = await listPluginFiles(directory);
+    const stats = await Promise.all(
+      files.map(async (file) => {
+        const stat = await fs.stat(path.join(directory, file));
+        return `${file}:${stat.size}:${stat.mtimeMs}`;
+      })
+    );
+    return createHash("sha256").update(stats.join("\n")).digest("hex");
+  } catch (error) {
+    return null;
+  }
+}
+
+// Paths of the files in `directory`, relative to it and sorted
+async function listPluginFiles(
+  directory: string,
+  prefix: string = ""
+): Promise<string[]> {
+  const entries = await fs.readdir(path.join(directory, prefix), {
+    withFileTypes: true,
+  });
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const file = path.join(prefix, entry.name);
+    if (entry.isDirectory() && entry.name !== "node_modules") {
+      files.push(...(await listPluginFiles(directory, file)));
+    } else if (entry.isFile()) {
+      files.push(file);
+    }
+  }
+  return files.sort();
+}
@@ -0,0 +1,87 @@
+import { ChildProcess } from "child_process";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ReadBuffer,
+  serializeMessage,
+} from "@modelcontextprotocol/sdk/shared/stdio.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * MCP client transport over the stdio of a child process that was spawned by
+ * the caller. Unlike StdioClientTransport it does not start a process of its
+ * own, so the caller keeps control of the one process serving requests.
+ * Closing the transport stops listening but leaves the process running.
+ */
+export class ChildProcessTransport implements Transport {
+  private readBuffer = new ReadBuffer();
+  private closed = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(private child: ChildProcess) {}
+
+  async start(): Promise<void> {
+    const { stdin, stdout } = this.child;
+    if (!stdin || !stdout) {
+      throw new Error("Child process was not spawned with piped stdio");
+    }
+
+    stdout.on("data", this.handleData);
+    stdout.on("error", this.handleError);
+    stdin.on("error", this.handleError);
+    this.child.on("close", this.handleClose);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const stdin = this.child.stdin;
+    if (this.closed || !stdin || !stdin.writable) {
+      throw new Error("Not connected");
+    }
+
+    if (!stdin.write(serializeMessage(message))) {
+      await new Promise((resolve) => stdin.once("drain", resolve));
+    }
+  }
+
+  async close(): Promise<void> {
+    this.handleClose();
+  }
+
+  private handleData = (chunk: Buffer): void => {
+    this.readBuffer.append(chunk);
+
+    while (true) {
+      try {
+        const message = this.readBuffer.readMessage();
+        if (message === null) {
+          break;
+        }
+        this.onmessage?.(message);
+      } catch (error) {
+        // Anything else the plugin writes to stdout is not a message
+        this.onerror?.(error as Error);
+      }
+    }
+  };
+
+  private handleError = (error: Error): void => {
+    this.onerror?.(error);
+  };
+
+  private handleClose = (): void => {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    this.child.stdout?.off("data", this.handleData);
+    this.child.stdout?.off("error", this.handleError);
+    this.child.stdin?.off("error", this.handleError);
+    this.child.off("close", this.handleClose);
+    this.readBuffer.clear();
+
+    this.onclose?.();
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "@jest/globals";
+import { resolveDependencyOrder } from "./dependency-graph";
+
+describe("resolveDependencyOrder", () => {
+  it("orders dependencies before their dependents", () => {
+    const { order, skipped } = resolveDependencyOrder([
+      { name: "reports", dependencies: ["slack", "postgres"] },
+      { name: "slack", dependencies: [] },
+      { name: "postgres", dependencies: [] },
+    ]);
+
+    expect(order).toEqual(["slack", "postgres", "reports"]);
+    expect(skipped.size).toBe(0);
+  });
+
+  it("skips every member of a cycle and reports the cycle", () => {
+    const { order, skipped } = resolveDependencyOrder([
+      { name: "a", dependencies: ["b"] },
+      { name: "b", dependencies: ["c"] },
+      { name: "c", dependencies: ["a"] },
+      { name: "d", dependencies: [] },
+    ]);
+
+    expect(order).toEqual(["d"]);
+    expect(skipped.get("a")).toBe("dependency cycle: a -> b -> c -> a");
+    expect(skipped.get("b")).toBe("dependency cycle: a -> b -> c -> a");
+    expect(skipped.get("c")).toBe("dependency cycle: a -> b -> c -> a");
+  });
+
+  it("skips a plugin that depends on itself", () => {
+    const { order, skipped } = resolveDependencyOrder([
+      { name: "a", dependencies: ["a"] },
+    ]);
+
+    expect(order).toEqual([]);
+    expect(skipped.get("a")).toBe("dependency cycle: a -> a");
+  });
+
+  it("reports missing dependencies", () => {
+    const { order, skipped } = resolveDependencyOrder([
+      { name: "reports", dependencies: ["postgres"] },
+      { name: "slack", dependencies: [] },
+    ]);
+
+    expect(order).toEqual(["slack"]);
+    expect(skipped.get("reports")).toBe('missing dependency "postgres"');
+  });
+
+  it("skips dependents of skipped plugins with the reason", () => {
+    const { order, skipped } = resolveDependencyOrder([
+      { name: "digest", dependencies: ["reports"] },
+      { name: "reports", dependencies: ["postgres"] },
+    ]);
+
+    expect(order).toEqual([]);
+    expect(skipped.get("digest")).toBe(
+      'dependency "reports" cannot start (missing dependency "postgres")'
+    );
+  });
+});
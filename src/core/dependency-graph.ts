@@ -0,0 +1,75 @@
+export interface DependencyNode {
+  name: string;
+  dependencies: string[]; // Plugin names, not npm packages
+}
+
+export interface DependencyOrder {
+  order: string[]; // Dependencies always come before their dependents
+  skipped: Map<string, string>; // Plugin name -> reason it cannot start
+}
+
+/**
+ * Orders plugins so that every plugin comes after the plugins it depends on.
+ * Plugins that are part of a cycle, depend on a plugin that is not present,
+ * or depend on a plugin that is skipped for either reason are left out of
+ * `order` and reported in `skipped`.
+ */
+export function resolveDependencyOrder(
+  nodes: DependencyNode[]
+): DependencyOrder {
+  const byName = new Map(nodes.map((node) => [node.name, node]));
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+  const order: string[] = [];
+  const skipped = new Map<string, string>();
+
+  const skip = (name: string, reason: string): void => {
+    if (!skipped.has(name)) {
+      skipped.set(name, reason);
+    }
+  };
+
+  const visit = (name: string): void => {
+    if (state.get(name) === "done") {
+      return;
+    }
+
+    if (state.get(name) === "visiting") {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      for (const member of cycle) {
+        skip(member, `dependency cycle: ${cycle.join(" -> ")}`);
+      }
+      return;
+    }
+
+    state.set(name, "visiting");
+    path.push(name);
+
+    for (const dependency of new Set(byName.get(name)!.dependencies)) {
+      if (!byName.has(dependency)) {
+        skip(name, `missing dependency "${dependency}"`);
+        continue;
+      }
+
+      visit(dependency);
+      if (skipped.has(dependency)) {
+        skip(
+          name,
+          `dependency "${dependency}" cannot start (${skipped.get(dependency)})`
+        );
+      }
+    }
+
+    path.pop();
+    state.set(name, "done");
+    if (!skipped.has(name)) {
+      order.push(name);
+    }
+  };
+
+  for (const node of nodes) {
+    visit(node.name);
+  }
+
+  return { order, skipped };
+}
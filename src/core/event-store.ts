@@ -0,0 +1,56 @@
+import {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+interface StoredEvent {
+  id: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Messages sent on a session's SSE streams, kept so that a client that loses
+ * its connection can resume with `Last-Event-ID`. Only the most recent
+ * `maxEvents` are kept; older ones can no longer be replayed.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+  private nextEvent = 0;
+
+  constructor(private maxEvents: number = 1000) {}
+
+  async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage
+  ): Promise<EventId> {
+    const id = `${streamId}_${this.nextEvent++}`;
+    this.events.push({ id, streamId, message });
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+    return id;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex((event) => event.id === lastEventId);
+    if (index === -1) {
+      return "";
+    }
+
+    const { streamId } = this.events[index]!;
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.id, event.message);
+      }
+    }
+    return streamId;
+  }
+}
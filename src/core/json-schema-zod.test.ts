@@ -0,0 +1,138 @@
+import { describe, expect, it } from "@jest/globals";
+import { z } from "zod";
+import { jsonSchemaToZod, jsonSchemaToZodShape } from "./json-schema-zod";
+
+describe("jsonSchemaToZodShape", () => {
+  const shape = jsonSchemaToZodShape({
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      limit: { type: "integer", default: 10 },
+      verbose: { type: "boolean" },
+    },
+    required: ["query"],
+  });
+  const schema = z.object(shape);
+
+  it("requires the properties listed in required", () => {
+    expect(schema.safeParse({}).success).toBe(false);
+    expect(schema.safeParse({ query: "select 1" }).success).toBe(true);
+  });
+
+  it("leaves other properties optional and applies defaults", () => {
+    expect(schema.parse({ query: "select 1" })).toEqual({
+      query: "select 1",
+      limit: 10,
+    });
+  });
+
+  it("returns an empty shape without a schema", () => {
+    expect(jsonSchemaToZodShape(undefined)).toEqual({});
+  });
+});
+
+describe("jsonSchemaToZod", () => {
+  it("accepts only the values of a string enum", () => {
+    const schema = jsonSchemaToZod({ enum: ["asc", "desc"] });
+    expect(schema.safeParse("asc").success).toBe(true);
+    expect(schema.safeParse("up").success).toBe(false);
+  });
+
+  it("accepts only the values of a mixed enum", () => {
+    const schema = jsonSchemaToZod({ enum: [1, "one", null] });
+    expect(schema.safeParse(1).success).toBe(true);
+    expect(schema.safeParse(null).success).toBe(true);
+    expect(schema.safeParse(2).success).toBe(false);
+  });
+
+  it("validates nested objects", () => {
+    const schema = jsonSchemaToZod({
+      type: "object",
+      properties: {
+        filter: {
+          type: "object",
+          properties: {
+            level: { type: "string", enum: ["error", "warning"] },
+            tags: { type: "array", items: { type: "string" }, minItems: 1 },
+          },
+          required: ["level"],
+        },
+      },
+      required: ["filter"],
+    });
+
+    expect(
+      schema.safeParse({ filter: { level: "error", tags: ["api"] } }).success
+    ).toBe(true);
+    expect(schema.safeParse({ filter: { level: "info" } }).success).toBe(false);
+    expect(
+      schema.safeParse({ filter: { level: "error", tags: [] } }).success
+    ).toBe(false);
+
+    const result = schema.safeParse({ filter: {} });
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues[0]?.path).toEqual([
+      "filter",
+      "level",
+    ]);
+  });
+
+  it("rejects unknown properties when additionalProperties is false", () => {
+    const schema = jsonSchemaToZod({
+      type: "object",
+      properties: { name: { type: "string" } },
+      additionalProperties: false,
+    });
+    expect(schema.safeParse({ name: "a" }).success).toBe(true);
+    expect(schema.safeParse({ name: "a", extra: 1 }).success).toBe(false);
+  });
+
+  it("keeps unknown properties when additionalProperties is not set", () => {
+    const schema = jsonSchemaToZod({
+      type: "object",
+      properties: { name: { type: "string" } },
+    });
+    expect(schema.parse({ name: "a", extra: 1 })).toEqual({
+      name: "a",
+      extra: 1,
+    });
+  });
+
+  it("checks other properties against an additionalProperties schema", () => {
+    const withProperties = jsonSchemaToZod({
+      type: "object",
+      properties: { name: { type: "string" } },
+      additionalProperties: { type: "number" },
+    });
+    expect(withProperties.safeParse({ name: "a", count: 1 }).success).toBe(
+      true
+    );
+    expect(withProperties.safeParse({ name: "a", count: "1" }).success).toBe(
+      false
+    );
+
+    const map = jsonSchemaToZod({
+      type: "object",
+      additionalProperties: { type: "string" },
+    });
+    expect(map.safeParse({ a: "x", b: "y" }).success).toBe(true);
+    expect(map.safeParse({ a: 1 }).success).toBe(false);
+  });
+
+  it("applies numeric and string bounds", () => {
+    const number = jsonSchemaToZod({ type: "number", minimum: 1, maximum: 5 });
+    expect(number.safeParse(5).success).toBe(true);
+    expect(number.safeParse(6).success).toBe(false);
+
+    const string = jsonSchemaToZod({ type: "string", pattern: "^[a-z]+$" });
+    expect(string.safeParse("abc").success).toBe(true);
+    expect(string.safeParse("ABC").success).toBe(false);
+  });
+
+  it("makes a type list containing null nullable", () => {
+    const schema = jsonSchemaToZod({ type: ["string", "null"] });
+    expect(schema.safeParse(null).success).toBe(true);
+    expect(schema.safeParse("a").success).toBe(true);
+    expect(schema.safeParse(1).success).toBe(false);
+  });
+});
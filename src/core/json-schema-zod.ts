@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+// The subset of JSON Schema that plugins use in tool input schemas. Keywords
+// not listed here are ignored, so the resulting schema accepts more than the
+// original rather than rejecting valid arguments.
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+/**
+ * Zod raw shape for McpServer.tool() from a tool's JSON Schema inputSchema.
+ * Properties missing from `required` are optional, and defaults are applied
+ * before the arguments reach the tool.
+ */
+export function jsonSchemaToZodShape(
+  inputSchema: JsonSchema | undefined
+): Record<string, z.ZodTypeAny> {
+  const required = new Set(inputSchema?.required ?? []);
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [name, property] of Object.entries(
+    inputSchema?.properties ?? {}
+  )) {
+    shape[name] = withPresence(
+      jsonSchemaToZod(property),
+      property,
+      required.has(name)
+    );
+  }
+
+  return shape;
+}
+
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  const converted = convertSchema(schema);
+  return schema.description
+    ? converted.describe(schema.description)
+    : converted;
+}
+
+function convertSchema(schema: JsonSchema): z.ZodTypeAny {
+  if (schema.const !== undefined) {
+    return literal(schema.const);
+  }
+  if (schema.enum) {
+    return convertEnum(schema.enum);
+  }
+
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives) {
+    return union(alternatives.map(jsonSchemaToZod));
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type) => type !== "null");
+    const converted = union(
+      types.map((type) => convertSchema({ ...schema, type }))
+    );
+    return types.length < schema.type.length
+      ? converted.nullable()
+      : converted;
+  }
+
+  switch (schema.type ?? (schema.properties ? "object" : undefined)) {
+    case "object":
+      return convertObject(schema);
+    case "array":
+      return convertArray(schema);
+    case "string":
+      return convertString(schema);
+    case "number":
+      return convertNumber(z.number(), schema);
+    case "integer":
+      return convertNumber(z.number().int(), schema);
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    default:
+      return z.unknown();
+  }
+}
+
+function convertObject(schema: JsonSchema): z.ZodTypeAny {
+  const { additionalProperties } = schema;
+
+  // A map such as { type: "object", additionalProperties: { type: "string" } }
+  if (!schema.properties && typeof additionalProperties === "object") {
+    return z.record(jsonSchemaToZod(additionalProperties));
+  }
+
+  const object = z.object(jsonSchemaToZodShape(schema));
+  if (additionalProperties === false) {
+    return object.strict();
+  }
+  return typeof additionalProperties === "object"
+    ? object.catchall(jsonSchemaToZod(additionalProperties))
+    : object.passthrough();
+}
+
+function convertArray(schema: JsonSchema): z.ZodTypeAny {
+  let array = z.array(
+    schema.items ? jsonSchemaToZod(schema.items) : z.unknown()
+  );
+  if (schema.minItems !== undefined) array = array.min(schema.minItems);
+  if (schema.maxItems !== undefined) array = array.max(schema.maxItems);
+  return array;
+}
+
+function convertString(schema: JsonSchema): z.ZodTypeAny {
+  let string = z.string();
+  if (schema.minLength !== undefined) string = string.min(schema.minLength);
+  if (schema.maxLength !== undefined) string = string.max(schema.maxLength);
+  if (schema.pattern !== undefined) {
+    string = string.regex(new RegExp(schema.pattern));
+  }
+  return string;
+}
+
+function convertNumber(
+  number: z.ZodNumber,
+  schema: JsonSchema
+): z.ZodTypeAny {
+  if (schema.minimum !== undefined) number = number.min(schema.minimum);
+  if (schema.maximum !== undefined) number = number.max(schema.maximum);
+  if (schema.exclusiveMinimum !== undefined) {
+    number = number.gt(schema.exclusiveMinimum);
+  }
+  if (schema.exclusiveMaximum !== undefined) {
+    number = number.lt(schema.exclusiveMaximum);
+  }
+  if (schema.multipleOf !== undefined) {
+    number = number.multipleOf(schema.multipleOf);
+  }
+  return number;
+}
+
+function convertEnum(values: unknown[]): z.ZodTypeAny {
+  if (
+    values.length > 0 &&
+    values.every((value): value is string => typeof value === "string")
+  ) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  return union(values.map(literal));
+}
+
+function literal(value: unknown): z.ZodTypeAny {
+  return value === null
+    ? z.null()
+    : z.literal(value as string | number | boolean);
+}
+
+function union(schemas: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (schemas.length === 0) {
+    return z.never();
+  }
+  if (schemas.length === 1) {
+    return schemas[0]!;
+  }
+  return z.union(schemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+function withPresence(
+  schema: z.ZodTypeAny,
+  property: JsonSchema,
+  required: boolean
+): z.ZodTypeAny {
+  if (property.default !== undefined) {
+    return schema.default(property.default);
+  }
+  return required ? schema : schema.optional();
+}
@@ -0,0 +1,301 @@
+import { randomUUID } from "crypto";
+import express from "express";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  isInitializeRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "./event-store";
+
+export interface McpHttpOptions {
+  // Creates the MCP server for a new session
+  createServer: () => Server;
+  // Sessions without requests for this long are closed (milliseconds)
+  sessionIdleTimeout?: number;
+  // Messages kept per session for clients resuming a stream
+  maxStoredEvents?: number;
+  // Accepted Host headers (e.g. "localhost:3000"). Requests naming any other
+  // host are refused, so pages on other sites cannot reach the endpoint
+  // through DNS rebinding. Every host is accepted when unset.
+  allowedHosts?: string[];
+  // Accepted Origin headers of browser requests; every origin when unset
+  allowedOrigins?: string[];
+  onsessionopened?: (server: Server) => void;
+  onsessionclosed?: (server: Server) => void;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * MCP over HTTP, mounted on an Express app:
+ *
+ * - `POST|GET|DELETE /mcp`: Streamable HTTP. `initialize` starts a session
+ *   whose ID is returned in the `Mcp-Session-Id` header; SSE streams can be
+ *   resumed with `Last-Event-ID`.
+ * - `GET /sse` and `POST /messages?sessionId=...`: the older HTTP+SSE
+ *   transport, for clients that do not support Streamable HTTP yet.
+ *
+ * Every session gets its own MCP server from `createServer`.
+ */
+export class McpHttpEndpoint {
+  readonly router = express.Router();
+
+  private sessions = new Map<string, HttpSession>();
+  private sessionIdleTimeout: number;
+  private maxStoredEvents: number;
+
+  constructor(private options: McpHttpOptions) {
+    this.sessionIdleTimeout = options.sessionIdleTimeout ?? 30 * 60 * 1000;
+    this.maxStoredEvents = options.maxStoredEvents ?? 1000;
+
+    this.router.use(["/mcp", "/sse", "/messages"], (req, res, next) =>
+      this.checkRequestOrigin(req, res, next)
+    );
+    this.router.post("/mcp", (req, res) => this.handlePost(req, res));
+    this.router.get("/mcp", (req, res) => this.handleSessionRequest(req, res));
+    this.router.delete("/mcp", (req, res) =>
+      this.handleSessionRequest(req, res)
+    );
+    this.router.get("/sse", (req, res) => this.handleSseConnect(req, res));
+    this.router.post("/messages", (req, res) =>
+      this.handleSseMessage(req, res)
+    );
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(
+      [...this.sessions.values()].map(({ server }) => server.close())
+    );
+  }
+
+  private async handlePost(
+    req: express.Request,
+    res: express.Response
+  ): Promise<void> {
+    try {
+      const sessionId = req.header("mcp-session-id");
+      if (sessionId) {
+        await this.handleSessionRequest(req, res);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        sendError(
+          res,
+          400,
+          ErrorCode.InvalidRequest,
+          "Bad Request: Mcp-Session-Id header is required"
+        );
+        return;
+      }
+
+      const server = this.options.createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new InMemoryEventStore(this.maxStoredEvents),
+        onsessioninitialized: (sessionId) =>
+          this.openSession(sessionId, { server, transport }),
+      });
+
+      // sessionId is only assigned once the session is initialized
+      try {
+        await server.connect(transport as Transport);
+        await transport.handleRequest(req, res, req.body);
+      } finally {
+        // Not initialized, so no session refers to the server
+        if (!transport.sessionId) {
+          await server.close();
+        }
+      }
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  private checkRequestOrigin(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ): void {
+    const { allowedHosts, allowedOrigins } = this.options;
+
+    const host = req.header("host");
+    if (allowedHosts && (!host || !allowedHosts.includes(host))) {
+      sendError(res, 403, ErrorCode.InvalidRequest, "Invalid Host header");
+      return;
+    }
+
+    // Only browsers send an Origin; other clients are not affected
+    const origin = req.header("origin");
+    if (allowedOrigins && origin && !allowedOrigins.includes(origin)) {
+      sendError(res, 403, ErrorCode.InvalidRequest, "Invalid Origin header");
+      return;
+    }
+
+    next();
+  }
+
+  // Requests of an existing Streamable HTTP session
+  private async handleSessionRequest(
+    req: express.Request,
+    res: express.Response
+  ): Promise<void> {
+    try {
+      const session = this.findSession(req.header("mcp-session-id"), res);
+      if (!session) {
+        return;
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendError(
+          res,
+          400,
+          ErrorCode.InvalidRequest,
+          "Bad Request: Session uses the SSE transport"
+        );
+        return;
+      }
+
+      this.touchSession(session);
+      await session.transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  private async handleSseConnect(
+    req: express.Request,
+    res: express.Response
+  ): Promise<void> {
+    try {
+      const server = this.options.createServer();
+      const transport = new SSEServerTransport(`${req.baseUrl}/messages`, res);
+
+      // The session lasts as long as the event stream; no idle timeout applies
+      this.openSession(transport.sessionId, { server, transport }, false);
+      await server.connect(transport);
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  private async handleSseMessage(
+    req: express.Request,
+    res: express.Response
+  ): Promise<void> {
+    try {
+      const sessionId =
+        typeof req.query.sessionId === "string" ? req.query.sessionId : "";
+      const session = this.findSession(sessionId, res);
+      if (!session) {
+        return;
+      }
+      if (!(session.transport instanceof SSEServerTransport)) {
+        sendError(
+          res,
+          400,
+          ErrorCode.InvalidRequest,
+          "Bad Request: Session uses the Streamable HTTP transport"
+        );
+        return;
+      }
+
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  }
+
+  private openSession(
+    sessionId: string,
+    session: HttpSession,
+    expires: boolean = true
+  ): void {
+    this.sessions.set(sessionId, session);
+
+    // The transport's own onclose is taken by the MCP server, so the session
+    // is dropped when the server closes
+    const onclose = session.server.onclose;
+    session.server.onclose = () => {
+      onclose?.();
+      this.closeSession(sessionId);
+    };
+
+    if (expires) {
+      this.touchSession(session);
+    }
+    this.options.onsessionopened?.(session.server);
+  }
+
+  private closeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    clearTimeout(session.idleTimer);
+    this.sessions.delete(sessionId);
+    this.options.onsessionclosed?.(session.server);
+  }
+
+  private touchSession(session: HttpSession): void {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(
+      () => session.server.close(),
+      this.sessionIdleTimeout
+    );
+    session.idleTimer.unref();
+  }
+
+  private findSession(
+    sessionId: string | undefined,
+    res: express.Response
+  ): HttpSession | undefined {
+    if (!sessionId) {
+      sendError(
+        res,
+        400,
+        ErrorCode.InvalidRequest,
+        "Bad Request: Mcp-Session-Id header is required"
+      );
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      // Tells Streamable HTTP clients to start a new session
+      sendError(res, 404, -32001, "Session not found");
+    }
+    return session;
+  }
+
+  private handleError(res: express.Response, error: unknown): void {
+    console.error("MCP HTTP request failed:", error);
+    if (!res.headersSent) {
+      sendError(res, 500, ErrorCode.InternalError, "Internal server error");
+    }
+  }
+}
+
+function sendError(
+  res: express.Response,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    id: null,
+    error: { code, message },
+  });
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import {
+  NotificationSchema,
+  RequestSchema,
+  ResultSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// A call made by plugin A that makes plugin B call plugin C has depth 2.
+// Anything deeper is treated as a loop.
+export const MAX_PLUGIN_CALL_DEPTH = 5;
+
+// Request sent by plugin-wrapper to the ProcessManager when a plugin calls
+// another plugin's tool. The result is a regular CallToolResult.
+export const PLUGIN_CALL_TOOL_METHOD = "plugins/callTool";
+
+// Key in a tools/call request's _meta carrying the depth of that call
+export const PLUGIN_CALL_DEPTH_META_KEY = "pluginCallDepth";
+
+export const PluginCallToolRequestSchema = RequestSchema.extend({
+  method: z.literal(PLUGIN_CALL_TOOL_METHOD),
+  params: z.object({
+    plugin: z.string(),
+    tool: z.string(),
+    arguments: z.record(z.unknown()).optional(),
+    depth: z.number().int().nonnegative(), // Depth of the calling invocation
+  }),
+});
+
+// Checks shared by both runtimes; returns the depth of the new call
+export function checkPluginCall(
+  caller: string,
+  callerDependencies: string[],
+  target: string,
+  depth: number
+): number {
+  if (!callerDependencies.includes(target)) {
+    throw new Error(
+      `Plugin ${caller} cannot call ${target}: it is not a declared dependency`
+    );
+  }
+
+  const nextDepth = depth + 1;
+  if (nextDepth > MAX_PLUGIN_CALL_DEPTH) {
+    throw new Error(
+      `Plugin call ${caller} -> ${target} exceeds the maximum call depth of ${MAX_PLUGIN_CALL_DEPTH}`
+    );
+  }
+
+  return nextDepth;
+}
+
+// Request sent by plugin-wrapper when plugin code uses its PluginContext. The
+// ProcessManager answers from its own PluginContext for that plugin, so
+// credentials are decrypted in the server and never handed to the child.
+export const PLUGIN_CONTEXT_METHOD = "plugins/context";
+
+export const PLUGIN_CONTEXT_CALLS = [
+  "getConfig",
+  "getCredential",
+  "setCredential",
+  "getAccessToken",
+  "isAuthenticated",
+  "getTokenInfo",
+  "requireReauth",
+  "getAuthHeaders",
+] as const;
+
+export type PluginContextCall = (typeof PLUGIN_CONTEXT_CALLS)[number];
+
+export const PluginContextRequestSchema = RequestSchema.extend({
+  method: z.literal(PLUGIN_CONTEXT_METHOD),
+  params: z.object({
+    call: z.enum(PLUGIN_CONTEXT_CALLS),
+    args: z.array(z.string()).default([]),
+  }),
+});
+
+// Errors are returned rather than thrown so that their name (for example
+// ReauthRequiredError) survives the trip back to the plugin
+export const PluginContextResultSchema = ResultSchema.extend({
+  value: z.unknown().optional(),
+  error: z.object({ name: z.string(), message: z.string() }).optional(),
+});
+
+// Sent by plugin-wrapper once the plugin is initialized and its tools,
+// resources and prompts are registered
+export const PLUGIN_READY_NOTIFICATION = "notifications/plugins/ready";
+
+export const PluginReadyNotificationSchema = NotificationSchema.extend({
+  method: z.literal(PLUGIN_READY_NOTIFICATION),
+});
+
+// Request sent by the ProcessManager's health checks after a successful ping.
+// plugin-wrapper answers with the plugin's own healthCheck(), or healthy when
+// the plugin does not implement one.
+export const PLUGIN_HEALTH_CHECK_METHOD = "plugins/healthCheck";
+
+export const PluginHealthCheckRequestSchema = RequestSchema.extend({
+  method: z.literal(PLUGIN_HEALTH_CHECK_METHOD),
+});
+
+export const PluginHealthCheckResultSchema = ResultSchema.extend({
+  healthy: z.boolean(),
+  message: z.string().optional(),
+});
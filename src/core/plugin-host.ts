@@ -0,0 +1,553 @@
+import { EventEmitter } from "events";
+import { z } from "zod";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  PluginIsolation,
+  PluginStatus,
+  Prompt,
+  PromptResult,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "../types/plugin";
+import { SecureStorage } from "../types/auth";
+import { DefaultPluginManager, PluginManager } from "./plugin-manager";
+import {
+  PluginFailure,
+  ProcessManager,
+  ProcessManagerOptions,
+} from "./process-manager";
+import { PluginRegistry } from "./registry";
+import { resolveDependencyOrder } from "./dependency-graph";
+import { ReadResourceContents } from "./resource-contents";
+import { compileToolArguments, parseToolArguments } from "./tool-arguments";
+import { JsonSchema } from "./json-schema-zod";
+import { toCallToolResult, toolResultText } from "./tool-result";
+import { DefaultOAuthManager } from "./auth/oauth-manager";
+import { DefaultAuthManager } from "./auth/auth-manager";
+
+/**
+ * Runs every plugin in the registry in the runtime its plugin.json asks for:
+ * in-process plugins through a DefaultPluginManager, process isolated ones
+ * through a ProcessManager. Both share the registry's configuration and the
+ * same credential store, so the admin API and every MCP transport work the
+ * same for either.
+ *
+ * Emits "capabilitiesChanged" whenever the available tools, resources or
+ * prompts may have changed.
+ */
+export class PluginHost extends EventEmitter implements PluginManager {
+  private inProcess: DefaultPluginManager;
+  private processes: ProcessManager;
+  // Argument validators of process isolated tools, by "plugin.tool"
+  private toolValidators: Map<string, z.ZodTypeAny> = new Map();
+  // Process isolated plugins started once their restarting dependencies are
+  // back up
+  private waitingPlugins: Set<string> = new Set();
+  // Why plugins failed to start, reported by listPlugins()
+  private startFailures: Map<string, string> = new Map();
+
+  constructor(
+    private registry: PluginRegistry,
+    secureStorage: SecureStorage,
+    oauthManager?: DefaultOAuthManager,
+    authManager?: DefaultAuthManager,
+    processOptions: ProcessManagerOptions = {}
+  ) {
+    super();
+    this.inProcess = new DefaultPluginManager(
+      registry,
+      secureStorage,
+      oauthManager,
+      authManager
+    );
+    this.processes = new ProcessManager({
+      ...processOptions,
+      secureStorage,
+      ...(oauthManager ? { oauthManager } : {}),
+      ...(authManager ? { authManager } : {}),
+    });
+    this.setupProcessEvents();
+  }
+
+  private setupProcessEvents(): void {
+    this.processes.on("pluginStarted", (pluginName) => {
+      // A restarted plugin may come back with different tools
+      this.clearToolValidators(pluginName);
+      this.emit("capabilitiesChanged");
+      this.startWaitingPlugins();
+    });
+    this.processes.on("pluginIdle", () => this.emit("capabilitiesChanged"));
+    this.processes.on("pluginStopped", () => this.emit("capabilitiesChanged"));
+    this.processes.on(
+      "pluginRestarting",
+      (pluginName, attempt, failure?: PluginFailure) => {
+        console.warn(
+          `Plugin ${pluginName} ${failure?.reason ?? "crashed"}, restart #${attempt}`
+        );
+        this.emit("capabilitiesChanged");
+      }
+    );
+    this.processes.on("pluginFailed", (pluginName, error) => {
+      console.error(`Plugin ${pluginName} failed:`, error);
+      this.emit("capabilitiesChanged");
+      this.startWaitingPlugins();
+    });
+  }
+
+  getIsolation(pluginName: string): PluginIsolation {
+    return (
+      this.registry.getPluginMetadata(pluginName)?.isolation ?? "in-process"
+    );
+  }
+
+  async initializePlugin(pluginName: string): Promise<void> {
+    try {
+      this.checkIsolationOfDependencies(pluginName);
+
+      if (this.getIsolation(pluginName) === "in-process") {
+        await this.inProcess.initializePlugin(pluginName);
+      } else {
+        await this.startPluginProcess(pluginName);
+      }
+    } catch (error) {
+      this.startFailures.set(
+        pluginName,
+        error instanceof Error ? error.message : String(error)
+      );
+      throw error;
+    }
+    this.startFailures.delete(pluginName);
+    this.emit("capabilitiesChanged");
+  }
+
+  // Plugins call their dependencies through the runtime they run in, so a
+  // dependency must run in the same one
+  private checkIsolationOfDependencies(pluginName: string): void {
+    const isolation = this.getIsolation(pluginName);
+    const mismatched = this.getPluginDependencies(pluginName).filter(
+      (dependency) =>
+        this.registry.getPluginMetadata(dependency) &&
+        this.getIsolation(dependency) !== isolation
+    );
+    if (mismatched.length > 0) {
+      throw new Error(
+        `Plugin ${pluginName} runs ${isolation}, but depends on plugins with a different isolation: ${mismatched.join(
+          ", "
+        )}`
+      );
+    }
+  }
+
+  private async startPluginProcess(pluginName: string): Promise<void> {
+    const metadata = this.registry.getPluginMetadata(pluginName);
+    const pluginPath = this.registry.getPluginPath(pluginName);
+    if (!metadata || !pluginPath) {
+      throw new Error(`Plugin ${pluginName} not found`);
+    }
+
+    const config = this.registry.getPluginConfig(pluginName);
+    if (!config?.enabled) {
+      throw new Error(`Plugin ${pluginName} is not enabled`);
+    }
+
+    if (this.processes.isPluginAvailable(pluginName)) {
+      return; // Already started
+    }
+    if (this.processes.getPluginConfig(pluginName)) {
+      // Failed or waiting to be restarted: start over with a fresh process
+      await this.processes.removePlugin(pluginName);
+    }
+
+    const pending = this.getPluginDependencies(pluginName).filter(
+      (dependency) => !this.processes.isPluginAvailable(dependency)
+    );
+    if (pending.length > 0 && pending.every((d) => this.mayComeUp(d))) {
+      console.log(
+        `Plugin ${pluginName} waits for ${pending.join(", ")} to start`
+      );
+      this.waitingPlugins.add(pluginName);
+      return;
+    }
+    if (pending.length > 0) {
+      throw new Error(
+        `Plugin ${pluginName} depends on plugins that are not initialized: ${pending.join(
+          ", "
+        )}`
+      );
+    }
+
+    // The registry's configuration takes the place of the manifest's, as it
+    // does for in-process plugins
+    const auth = config.auth ?? metadata.auth;
+    let failure: string | undefined;
+    try {
+      await this.processes.startPlugin({
+        ...this.processes.createPluginConfig(pluginName, pluginPath, metadata),
+        config: config.config,
+        ...(auth ? { auth } : {}),
+      });
+      if (!this.processes.isPluginAvailable(pluginName)) {
+        failure =
+          this.processes.getPluginStatus()[pluginName]?.lastFailure?.message ??
+          "unknown error";
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    // A failed plugin is not left behind to be restarted in the background
+    if (failure !== undefined) {
+      if (this.processes.getPluginConfig(pluginName)) {
+        await this.processes.removePlugin(pluginName);
+      }
+      throw new Error(`Plugin ${pluginName} failed to start: ${failure}`);
+    }
+  }
+
+  // Not available yet, but being started or restarted, or waiting itself
+  private mayComeUp(pluginName: string): boolean {
+    return (
+      this.waitingPlugins.has(pluginName) ||
+      this.processes.isPluginRestarting(pluginName)
+    );
+  }
+
+  // Starts waiting plugins whose dependencies are up, and gives up on those
+  // with a dependency that is not coming back
+  private startWaitingPlugins(): void {
+    for (const pluginName of Array.from(this.waitingPlugins)) {
+      if (!this.waitingPlugins.has(pluginName)) {
+        continue; // Handled while starting another waiting plugin
+      }
+
+      const pending = this.getPluginDependencies(pluginName).filter(
+        (dependency) => !this.processes.isPluginAvailable(dependency)
+      );
+      const failed = pending.find((dependency) => !this.mayComeUp(dependency));
+      if (failed) {
+        this.waitingPlugins.delete(pluginName);
+        console.error(
+          `Skipping plugin ${pluginName}: dependency "${failed}" failed to initialize`
+        );
+      } else if (pending.length === 0) {
+        this.waitingPlugins.delete(pluginName);
+        this.initializePlugin(pluginName).catch((error) =>
+          console.error(`Failed to initialize plugin ${pluginName}:`, error)
+        );
+      }
+    }
+  }
+
+  async initializeAllPlugins(): Promise<void> {
+    const enabledPlugins = this.registry
+      .listPlugins()
+      .filter((p) => p.enabled)
+      .map((p) => ({
+        name: p.name,
+        dependencies: this.getPluginDependencies(p.name),
+      }));
+
+    const { order, skipped } = resolveDependencyOrder(enabledPlugins);
+    for (const [pluginName, reason] of skipped) {
+      console.error(`Skipping plugin ${pluginName}: ${reason}`);
+    }
+
+    // Sequential, so a plugin only starts once its dependencies are up
+    const failed = new Set<string>();
+    for (const pluginName of order) {
+      const failedDependency = this.getPluginDependencies(pluginName).find(
+        (dependency) => failed.has(dependency)
+      );
+      if (failedDependency) {
+        failed.add(pluginName);
+        console.error(
+          `Skipping plugin ${pluginName}: dependency "${failedDependency}" failed to initialize`
+        );
+        continue;
+      }
+
+      try {
+        await this.initializePlugin(pluginName);
+      } catch (error) {
+        failed.add(pluginName);
+        console.error(`Failed to initialize plugin ${pluginName}:`, error);
+      }
+    }
+  }
+
+  // Plugin names from plugin.json merged with those declared by the plugin
+  private getPluginDependencies(pluginName: string): string[] {
+    const declared = [
+      ...(this.registry.getPluginMetadata(pluginName)?.dependencies ?? []),
+      ...(this.registry.getPlugin(pluginName)?.dependencies ?? []),
+    ];
+    return Array.from(new Set(declared));
+  }
+
+  isPluginInitialized(pluginName: string): boolean {
+    return this.getIsolation(pluginName) === "in-process"
+      ? this.inProcess.isPluginInitialized(pluginName)
+      : this.processes.isPluginAvailable(pluginName);
+  }
+
+  // The registry's view of each plugin, completed with the state of the
+  // runtime it runs in
+  listPlugins(): PluginStatus[] {
+    const processStatus = this.processes.getPluginStatus();
+
+    return this.registry.listPlugins().map((status) => {
+      const initialized = this.isPluginInitialized(status.name);
+      const error = status.error ?? this.startFailures.get(status.name);
+      if (status.isolation === "in-process") {
+        const plugin = this.registry.getPlugin(status.name);
+        return {
+          ...status,
+          initialized,
+          error,
+          toolCount: initialized ? plugin?.getTools().length ?? 0 : 0,
+          resourceCount: initialized
+            ? plugin?.getResources().length ?? 0
+            : 0,
+        };
+      }
+
+      const pluginProcess = processStatus[status.name];
+      return {
+        ...status,
+        initialized,
+        error,
+        toolCount: initialized ? pluginProcess?.toolCount ?? 0 : 0,
+        resourceCount: initialized ? pluginProcess?.resourceCount ?? 0 : 0,
+        ...(pluginProcess ? { process: pluginProcess } : {}),
+      };
+    });
+  }
+
+  // Process isolated plugins are advertised with what they listed over MCP,
+  // whose types are the SDK's looser ones
+  getAvailableTools(): Tool[] {
+    return [
+      ...this.inProcess.getAvailableTools(),
+      ...(this.processes.getAllTools() as Tool[]),
+    ];
+  }
+
+  getAvailableResources(): Resource[] {
+    return [
+      ...this.inProcess.getAvailableResources(),
+      ...(this.processes.getAllResources() as Resource[]),
+    ];
+  }
+
+  getAvailableResourceTemplates(): ResourceTemplate[] {
+    return [
+      ...this.inProcess.getAvailableResourceTemplates(),
+      ...(this.processes.getAllResourceTemplates() as ResourceTemplate[]),
+    ];
+  }
+
+  getAvailablePrompts(): Prompt[] {
+    return [
+      ...this.inProcess.getAvailablePrompts(),
+      ...(this.processes.getAllPrompts() as Prompt[]),
+    ];
+  }
+
+  async readResource(uri: string): Promise<ReadResourceContents[]> {
+    const pluginName = this.findResourceProcess(uri);
+    if (!pluginName) {
+      return await this.inProcess.readResource(uri);
+    }
+
+    const result = await this.processes.readResourceInPlugin(pluginName, uri);
+    return result.contents as ReadResourceContents[];
+  }
+
+  // The process isolated plugin listing `uri` or a template matching it.
+  // Exact resource URIs take precedence over templates.
+  private findResourceProcess(uri: string): string | null {
+    const plugins = this.processes.getAvailablePlugins();
+
+    const exact = plugins.find(({ resources }) =>
+      resources.some((resource) => resource.uri === uri)
+    );
+    if (exact) {
+      return exact.config.name;
+    }
+
+    const templated = plugins.find(({ resourceTemplates }) =>
+      resourceTemplates.some(
+        (template) => new UriTemplate(template.uriTemplate).match(uri) !== null
+      )
+    );
+    return templated?.config.name ?? null;
+  }
+
+  async getPrompt(
+    pluginName: string,
+    promptName: string,
+    args: Record<string, string>
+  ): Promise<PromptResult> {
+    if (this.getIsolation(pluginName) === "in-process") {
+      return await this.inProcess.getPrompt(pluginName, promptName, args);
+    }
+
+    return (await this.processes.getPromptInPlugin(
+      pluginName,
+      promptName,
+      args
+    )) as PromptResult;
+  }
+
+  // Resolves to a CallToolResult and rejects like
+  // DefaultPluginManager.executeTool, whichever runtime the plugin runs in
+  async executeTool(
+    pluginName: string,
+    toolName: string,
+    args: any,
+    signal?: AbortSignal
+  ): Promise<CallToolResult> {
+    if (this.getIsolation(pluginName) === "in-process") {
+      return toCallToolResult(
+        await this.inProcess.executeTool(pluginName, toolName, args, signal)
+      );
+    }
+
+    const result = await this.processes.executeToolInPlugin(
+      pluginName,
+      toolName,
+      this.validateToolArguments(pluginName, toolName, args),
+      signal ? { signal } : {}
+    );
+    // The plugin process reports the tool's failures in the result
+    if (result.isError) {
+      throw new Error(toolResultText(result) || "unknown error");
+    }
+    return result;
+  }
+
+  // Checked here as well as in the plugin process, so that invalid arguments
+  // are reported the same way for both runtimes
+  private validateToolArguments(
+    pluginName: string,
+    toolName: string,
+    args: any
+  ): any {
+    const key = `${pluginName}.${toolName}`;
+    let validator = this.toolValidators.get(key);
+    if (!validator) {
+      const tool = this.processes
+        .getAllTools()
+        .find(({ name }) => name === key);
+      if (!tool) {
+        return args;
+      }
+      validator = compileToolArguments(tool.inputSchema as JsonSchema);
+      this.toolValidators.set(key, validator);
+    }
+
+    return parseToolArguments(pluginName, toolName, validator, args);
+  }
+
+  private clearToolValidators(pluginName: string): void {
+    for (const key of Array.from(this.toolValidators.keys())) {
+      if (key.startsWith(`${pluginName}.`)) {
+        this.toolValidators.delete(key);
+      }
+    }
+  }
+
+  async shutdownPlugin(pluginName: string): Promise<void> {
+    this.startFailures.delete(pluginName);
+    if (this.getIsolation(pluginName) === "in-process") {
+      await this.inProcess.shutdownPlugin(pluginName);
+      this.emit("capabilitiesChanged");
+      return;
+    }
+
+    if (this.waitingPlugins.delete(pluginName)) {
+      return; // Not started yet, and now it never will be
+    }
+    if (!this.processes.getPluginConfig(pluginName)) {
+      return; // Not started, nothing to shutdown
+    }
+
+    // Dependents go first so they never run without their dependencies
+    for (const dependent of this.registry.listPlugins()) {
+      if (
+        dependent.isolation === "process" &&
+        (this.processes.getPluginConfig(dependent.name) ||
+          this.waitingPlugins.has(dependent.name)) &&
+        this.getPluginDependencies(dependent.name).includes(pluginName)
+      ) {
+        await this.shutdownPlugin(dependent.name);
+      }
+    }
+
+    await this.processes.removePlugin(pluginName);
+    this.clearToolValidators(pluginName);
+    console.log(`Plugin ${pluginName} shut down successfully`);
+  }
+
+  async shutdownAllPlugins(): Promise<void> {
+    this.waitingPlugins.clear();
+    await this.inProcess.shutdownAllPlugins();
+    await this.processes.shutdown();
+  }
+
+  // Health checks and memory/CPU limits of process isolated plugins
+  startMonitoring(): void {
+    this.processes.startHealthChecks();
+    this.processes.startResourceMonitoring();
+  }
+
+  // Started over, so that changes to the registry's configuration and
+  // credentials reach the plugin. Its dependents are shut down with it and
+  // started again once it is back.
+  async restartPlugin(pluginName: string): Promise<void> {
+    const dependents = this.getStartedDependents(pluginName);
+
+    await this.shutdownPlugin(pluginName);
+    await this.initializePlugin(pluginName);
+
+    for (const dependent of dependents) {
+      try {
+        await this.initializePlugin(dependent);
+      } catch (error) {
+        console.error(`Failed to initialize plugin ${dependent}:`, error);
+      }
+    }
+  }
+
+  // Plugins depending on `pluginName`, directly or not, that are started or
+  // waiting to be, in the order to start them in
+  private getStartedDependents(pluginName: string): string[] {
+    const dependents = new Set<string>();
+    const collect = (dependency: string) => {
+      for (const { name } of this.registry.listPlugins()) {
+        if (
+          !dependents.has(name) &&
+          (this.isPluginInitialized(name) ||
+            this.processes.getPluginConfig(name) ||
+            this.waitingPlugins.has(name)) &&
+          this.getPluginDependencies(name).includes(dependency)
+        ) {
+          dependents.add(name);
+          collect(name);
+        }
+      }
+    };
+    collect(pluginName);
+
+    return resolveDependencyOrder(
+      Array.from(dependents, (name) => ({
+        name,
+        dependencies: this.getPluginDependencies(name).filter((dependency) =>
+          dependents.has(dependency)
+        ),
+      }))
+    ).order;
+  }
+}
@@ -1,7 +1,37 @@
-import { PluginContext, Logger, Tool, Resource } from "../types/plugin";
+import { AsyncLocalStorage } from "async_hooks";
+import { z } from "zod";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  MCPPlugin,
+  PluginContext,
+  PluginAuthConfig,
+  Logger,
+  Tool,
+  Resource,
+  ResourceTemplate,
+  Prompt,
+  PromptResult,
+} from "../types/plugin";
 import { SecureStorage } from "../types/auth";
 import { OAuthToken } from "../types/oauth";
+import {
+  DefaultOAuthManager,
+  ReauthRequiredError,
+  readStoredToken,
+} from "./auth/oauth-manager";
+import { DefaultAuthManager, resolvePluginAuthConfig } from "./auth/auth-manager";
 import { PluginRegistry } from "./registry";
+import { resolveDependencyOrder } from "./dependency-graph";
+import { checkPluginCall } from "./plugin-calls";
+import {
+  ReadResourceContents,
+  flattenTemplateVariables,
+  normalizeResourceContents,
+} from "./resource-contents";
+import { missingPromptArguments } from "./prompt-arguments";
+import { resolveToolTimeout, withToolDeadline } from "./tool-deadlines";
+import { compileToolArguments, parseToolArguments } from "./tool-arguments";
+import { JsonSchema } from "./json-schema-zod";
 
 class PluginLogger implements Logger {
   constructor(private pluginId: string) {}
@@ -23,65 +53,119 @@ class PluginLogger implements Logger {
   }
 }
 
-class PluginContextImpl implements PluginContext {
+type PluginToolCaller = (
+  pluginName: string,
+  toolName: string,
+  args: Record<string, any>
+) => Promise<any>;
+
+export class PluginContextImpl implements PluginContext {
   public logger: Logger;
 
   constructor(
     public pluginId: string,
     public config: any,
-    private secureStorage: SecureStorage
+    private secureStorage: SecureStorage,
+    private oauthManager?: DefaultOAuthManager,
+    private authManager?: DefaultAuthManager,
+    private auth?: PluginAuthConfig,
+    private toolCaller?: PluginToolCaller
   ) {
     this.logger = new PluginLogger(pluginId);
   }
 
   async getCredential(key: string): Promise<string | null> {
+    this.checkCredentialKey(key);
     return await this.secureStorage.retrieveCredential(this.pluginId, key);
   }
 
   async setCredential(key: string, value: string): Promise<void> {
+    this.checkCredentialKey(key);
     await this.secureStorage.storeCredential(this.pluginId, key, value);
   }
 
-  // OAuth methods - to be implemented when OAuth manager is available
+  // Only the fields a plugin declares in its auth config are visible to it.
+  // OAuth client secrets and tokens stay behind getAccessToken().
+  private checkCredentialKey(key: string): void {
+    if (!Object.hasOwn(this.auth?.fields ?? {}, key)) {
+      throw new Error(
+        `Plugin ${this.pluginId} cannot access credential "${key}": it is not declared in its auth fields`
+      );
+    }
+  }
+
   async getAccessToken(): Promise<string> {
-    const token = await this.getCredential("access_token");
+    if (this.oauthManager) {
+      return await this.oauthManager.getValidAccessToken(this.pluginId);
+    }
+
+    // Without an OAuth manager tokens cannot be refreshed, only checked
+    const token = await this.getTokenInfo();
     if (!token) {
-      throw new Error("No access token available");
+      throw new ReauthRequiredError(this.pluginId, "no access token available");
+    }
+    if (token.expiresAt <= Date.now()) {
+      throw new ReauthRequiredError(this.pluginId, "access token expired");
     }
-    return token;
+    return token.accessToken;
   }
 
   async isAuthenticated(): Promise<boolean> {
-    const token = await this.getCredential("access_token");
+    const token = await this.secureStorage.retrieveCredential(
+      this.pluginId,
+      "access_token"
+    );
     return token !== null;
   }
 
   async getTokenInfo(): Promise<OAuthToken | null> {
-    const accessToken = await this.getCredential("access_token");
-    const refreshToken = await this.getCredential("refresh_token");
-    const expiresAt = await this.getCredential("expires_at");
-    const scope = await this.getCredential("scope");
-    const tokenType = await this.getCredential("token_type");
-
-    if (!accessToken) {
-      return null;
-    }
-
-    return {
-      accessToken,
-      refreshToken: refreshToken || undefined,
-      expiresAt: expiresAt ? parseInt(expiresAt, 10) : Date.now() + 3600000, // Default 1 hour
-      scope: scope || "",
-      tokenType: (tokenType as "Bearer") || "Bearer",
-    };
+    return await readStoredToken(this.secureStorage, this.pluginId);
   }
 
+  // Starts a new OAuth flow and returns the URL the user must visit
   async requireReauth(): Promise<string> {
-    // This would trigger a re-authentication flow
-    // For now, just throw an error indicating re-auth is needed
-    throw new Error(
-      "Re-authentication required. Please use the OAuth flow to re-authenticate."
+    const oauthConfig = await this.oauthManager?.getConfig(this.pluginId);
+    if (!this.oauthManager || !oauthConfig) {
+      throw new Error(
+        `Re-authentication required, but plugin ${this.pluginId} is not configured for OAuth`
+      );
+    }
+
+    const { authUrl } = await this.oauthManager.initiateFlow(
+      this.pluginId,
+      oauthConfig
     );
+    this.logger.warn(`Re-authentication required. Visit: ${authUrl}`);
+    return authUrl;
+  }
+
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    if (this.auth?.type === "oauth2") {
+      // Read after getAccessToken(), which may have refreshed the token
+      const accessToken = await this.getAccessToken();
+      const token = await this.getTokenInfo();
+      return {
+        Authorization: `${token?.tokenType || "Bearer"} ${accessToken}`,
+      };
+    }
+
+    if (!this.authManager || !this.auth) {
+      return {};
+    }
+    return await this.authManager.getAuthHeaders(this.pluginId);
+  }
+
+  async callTool(
+    pluginName: string,
+    toolName: string,
+    args: Record<string, any> = {}
+  ): Promise<any> {
+    if (!this.toolCaller) {
+      throw new Error(
+        `Plugin ${this.pluginId} cannot call other plugins in this runtime`
+      );
+    }
+    return await this.toolCaller(pluginName, toolName, args);
   }
 }
 
@@ -90,17 +174,36 @@ export interface PluginManager {
   initializeAllPlugins(): Promise<void>;
   getAvailableTools(): Tool[];
   getAvailableResources(): Resource[];
-  executeTool(pluginName: string, toolName: string, args: any): Promise<any>;
+  getAvailableResourceTemplates(): ResourceTemplate[];
+  readResource(uri: string): Promise<ReadResourceContents[]>;
+  getAvailablePrompts(): Prompt[];
+  getPrompt(
+    pluginName: string,
+    promptName: string,
+    args: Record<string, string>
+  ): Promise<PromptResult>;
+  executeTool(
+    pluginName: string,
+    toolName: string,
+    args: any,
+    signal?: AbortSignal
+  ): Promise<any>;
   shutdownPlugin(pluginName: string): Promise<void>;
   shutdownAllPlugins(): Promise<void>;
 }
 
 export class DefaultPluginManager implements PluginManager {
   private initializedPlugins: Set<string> = new Set();
+  // Depth of the inter-plugin call currently executing, if any
+  private callDepth = new AsyncLocalStorage<number>();
+  // Argument validators by "plugin.tool", compiled on the tool's first call
+  private toolValidators: Map<string, z.ZodTypeAny> = new Map();
 
   constructor(
     private registry: PluginRegistry,
-    private secureStorage: SecureStorage
+    private secureStorage: SecureStorage,
+    private oauthManager?: DefaultOAuthManager,
+    private authManager?: DefaultAuthManager
   ) {}
 
   async initializePlugin(pluginName: string): Promise<void> {
@@ -118,13 +221,39 @@ export class DefaultPluginManager implements PluginManager {
       return; // Already initialized
     }
 
+    const pending = this.getPluginDependencies(pluginName).filter(
+      (dependency) => !this.initializedPlugins.has(dependency)
+    );
+    if (pending.length > 0) {
+      throw new Error(
+        `Plugin ${pluginName} depends on plugins that are not initialized: ${pending.join(
+          ", "
+        )}`
+      );
+    }
+
+    const auth =
+      config.auth ?? this.registry.getPluginMetadata(pluginName)?.auth;
+
+    // Credential reads by the plugin are attributed to it in the audit log
+    const pluginStorage =
+      this.secureStorage.withActor?.(`plugin:${pluginName}`) ??
+      this.secureStorage;
     const context = new PluginContextImpl(
       pluginName,
       config.config,
-      this.secureStorage
+      pluginStorage,
+      this.oauthManager,
+      this.authManager,
+      auth,
+      (target, toolName, args) =>
+        this.callToolFromPlugin(pluginName, target, toolName, args)
     );
 
     try {
+      if (auth) {
+        await this.applyAuthStrategy(pluginName, auth);
+      }
       await plugin.initialize(context);
       this.initializedPlugins.add(pluginName);
       context.logger.info("Plugin initialized successfully");
@@ -134,23 +263,121 @@ export class DefaultPluginManager implements PluginManager {
     }
   }
 
+  private async applyAuthStrategy(
+    pluginName: string,
+    auth: PluginAuthConfig
+  ): Promise<void> {
+    const missing: string[] = [];
+    for (const [field, spec] of Object.entries(auth.fields)) {
+      if (
+        spec.required &&
+        (await this.secureStorage.retrieveCredential(pluginName, field)) ===
+          null
+      ) {
+        missing.push(field);
+      }
+    }
+
+    if (missing.length > 0 && auth.required) {
+      throw new Error(
+        `Plugin ${pluginName} is missing required credentials: ${missing.join(
+          ", "
+        )}`
+      );
+    }
+
+    // OAuth tokens are obtained and refreshed by the OAuth manager
+    if (auth.type === "oauth2" || !this.authManager) {
+      return;
+    }
+
+    const authConfig = await resolvePluginAuthConfig(
+      pluginName,
+      auth,
+      this.secureStorage
+    );
+    if (!authConfig) {
+      if (auth.required && auth.type !== "custom") {
+        throw new Error(
+          `Plugin ${pluginName} requires ${auth.type} credentials`
+        );
+      }
+      return;
+    }
+
+    const result = await this.authManager.authenticate(pluginName, authConfig);
+    if (!result.success && auth.required) {
+      throw new Error(
+        `Authentication failed for plugin ${pluginName}: ${result.error}`
+      );
+    }
+  }
+
   async initializeAllPlugins(): Promise<void> {
-    const plugins = this.registry.listPlugins();
-    const enabledPlugins = plugins.filter((p) => p.enabled);
+    const enabledPlugins = this.registry
+      .listPlugins()
+      .filter((p) => p.enabled)
+      .map((p) => ({
+        name: p.name,
+        dependencies: this.getPluginDependencies(p.name),
+      }));
+
+    const { order, skipped } = resolveDependencyOrder(enabledPlugins);
+    for (const [pluginName, reason] of skipped) {
+      console.error(`Skipping plugin ${pluginName}: ${reason}`);
+    }
 
-    // Initialize plugins in dependency order (basic implementation)
-    const initPromises = enabledPlugins.map(async (pluginStatus) => {
-      try {
-        await this.initializePlugin(pluginStatus.name);
-      } catch (error) {
+    // Sequential, so a plugin only starts once its dependencies are up
+    const failed = new Set<string>();
+    for (const pluginName of order) {
+      const failedDependency = this.getPluginDependencies(pluginName).find(
+        (dependency) => failed.has(dependency)
+      );
+      if (failedDependency) {
+        failed.add(pluginName);
         console.error(
-          `Failed to initialize plugin ${pluginStatus.name}:`,
-          error
+          `Skipping plugin ${pluginName}: dependency "${failedDependency}" failed to initialize`
         );
+        continue;
       }
-    });
 
-    await Promise.all(initPromises);
+      try {
+        await this.initializePlugin(pluginName);
+      } catch (error) {
+        failed.add(pluginName);
+        console.error(`Failed to initialize plugin ${pluginName}:`, error);
+      }
+    }
+  }
+
+  private async callToolFromPlugin(
+    caller: string,
+    target: string,
+    toolName: string,
+    args: Record<string, any>
+  ): Promise<any> {
+    const depth = checkPluginCall(
+      caller,
+      this.getPluginDependencies(caller),
+      target,
+      this.callDepth.getStore() ?? 0
+    );
+    return await this.callDepth.run(depth, () =>
+      this.executeTool(target, toolName, args)
+    );
+  }
+
+  // Plugin names from plugin.json merged with those declared by the plugin
+  private getPluginDependencies(pluginName: string): string[] {
+    const declared = [
+      ...(this.registry.getPluginMetadata(pluginName)?.dependencies ?? []),
+      ...(this.registry.getPlugin(pluginName)?.dependencies ?? []),
+    ];
+    return Array.from(new Set(declared));
+  }
+
+  isPluginInitialized(pluginName: string): boolean {
+    return this.initializedPlugins.has(pluginName);
   }
 
   getAvailableTools(): Tool[] {
@@ -200,10 +427,150 @@ export class DefaultPluginManager implements PluginManager {
     return allResources;
   }
 
+  getAvailableResourceTemplates(): ResourceTemplate[] {
+    const allTemplates: ResourceTemplate[] = [];
+
+    for (const pluginName of this.initializedPlugins) {
+      const plugin = this.registry.getPlugin(pluginName);
+      if (plugin?.getResourceTemplates) {
+        try {
+          allTemplates.push(...plugin.getResourceTemplates());
+        } catch (error) {
+          console.error(
+            `Error getting resource templates from plugin ${pluginName}:`,
+            error
+          );
+        }
+      }
+    }
+
+    return allTemplates;
+  }
+
+  async readResource(uri: string): Promise<ReadResourceContents[]> {
+    for (const pluginName of this.initializedPlugins) {
+      const plugin = this.registry.getPlugin(pluginName);
+      const match = plugin ? this.matchResource(plugin, uri) : null;
+      if (!plugin || !match) {
+        continue;
+      }
+
+      if (!plugin.readResource) {
+        throw new Error(
+          `Plugin ${pluginName} lists resource ${uri} but cannot read it`
+        );
+      }
+
+      try {
+        const contents = await plugin.readResource(uri, match.params);
+        return normalizeResourceContents(contents, uri, match.mimeType);
+      } catch (error) {
+        console.error(
+          `Error reading resource ${uri} from plugin ${pluginName}:`,
+          error
+        );
+        throw error;
+      }
+    }
+
+    throw new Error(`Resource ${uri} not found`);
+  }
+
+  // Exact resource URIs take precedence over templates
+  private matchResource(
+    plugin: MCPPlugin,
+    uri: string
+  ): { params: Record<string, string>; mimeType: string | undefined } | null {
+    const resource = plugin.getResources().find((r) => r.uri === uri);
+    if (resource) {
+      return { params: {}, mimeType: resource.mimeType };
+    }
+
+    for (const template of plugin.getResourceTemplates?.() ?? []) {
+      const variables = new UriTemplate(template.uriTemplate).match(uri);
+      if (variables) {
+        return {
+          params: flattenTemplateVariables(variables),
+          mimeType: template.mimeType,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  getAvailablePrompts(): Prompt[] {
+    const allPrompts: Prompt[] = [];
+
+    for (const pluginName of this.initializedPlugins) {
+      const plugin = this.registry.getPlugin(pluginName);
+      if (plugin?.getPrompts) {
+        try {
+          // Prefix prompt names with plugin name, like tools
+          const prefixedPrompts = plugin.getPrompts().map((prompt) => ({
+            ...prompt,
+            name: `${pluginName}.${prompt.name}`,
+          }));
+          allPrompts.push(...prefixedPrompts);
+        } catch (error) {
+          console.error(
+            `Error getting prompts from plugin ${pluginName}:`,
+            error
+          );
+        }
+      }
+    }
+
+    return allPrompts;
+  }
+
+  async getPrompt(
+    pluginName: string,
+    promptName: string,
+    args: Record<string, string>
+  ): Promise<PromptResult> {
+    const plugin = this.registry.getPlugin(pluginName);
+    if (!plugin) {
+      throw new Error(`Plugin ${pluginName} not found`);
+    }
+
+    if (!this.initializedPlugins.has(pluginName)) {
+      throw new Error(`Plugin ${pluginName} is not initialized`);
+    }
+
+    const prompt = plugin.getPrompts?.().find((p) => p.name === promptName);
+    if (!prompt || !plugin.getPrompt) {
+      throw new Error(`Prompt ${pluginName}.${promptName} not found`);
+    }
+
+    const missing = missingPromptArguments(prompt.arguments, args);
+    if (missing.length > 0) {
+      throw new Error(
+        `Prompt ${pluginName}.${promptName} is missing required arguments: ${missing.join(
+          ", "
+        )}`
+      );
+    }
+
+    try {
+      return await plugin.getPrompt(promptName, args);
+    } catch (error) {
+      console.error(
+        `Error getting prompt ${promptName} from plugin ${pluginName}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // Rejects with an InvalidToolArgumentsError when `args` do not match the
+  // tool's inputSchema, with a ToolTimeoutError when the call outlives its
+  // deadline, and with the abort reason when `signal` aborts first
   async executeTool(
     pluginName: string,
     toolName: string,
-    args: any
+    args: any,
+    signal?: AbortSignal
   ): Promise<any> {
     const plugin = this.registry.getPlugin(pluginName);
     if (!plugin) {
@@ -214,8 +581,25 @@ export class DefaultPluginManager implements PluginManager {
       throw new Error(`Plugin ${pluginName} is not initialized`);
     }
 
+    const validatedArgs = this.validateToolArguments(
+      plugin,
+      pluginName,
+      toolName,
+      args
+    );
+    const timeout = resolveToolTimeout(
+      this.registry.getPluginMetadata(pluginName)?.process,
+      toolName
+    );
+
     try {
-      return await plugin.executeTool(toolName, args);
+      return await withToolDeadline(
+        pluginName,
+        toolName,
+        timeout,
+        (callSignal) => plugin.executeTool(toolName, validatedArgs, callSignal),
+        signal
+      );
     } catch (error) {
       console.error(
         `Error executing tool ${toolName} from plugin ${pluginName}:`,
@@ -225,6 +609,28 @@ export class DefaultPluginManager implements PluginManager {
     }
   }
 
+  // Returns `args` with schema defaults applied. Tools the plugin does not
+  // list are left for the plugin itself to reject.
+  private validateToolArguments(
+    plugin: MCPPlugin,
+    pluginName: string,
+    toolName: string,
+    args: any
+  ): any {
+    const key = `${pluginName}.${toolName}`;
+    let validator = this.toolValidators.get(key);
+    if (!validator) {
+      const tool = plugin.getTools().find(({ name }) => name === toolName);
+      if (!tool) {
+        return args;
+      }
+      validator = compileToolArguments(tool.inputSchema as JsonSchema);
+      this.toolValidators.set(key, validator);
+    }
+
+    return parseToolArguments(pluginName, toolName, validator, args);
+  }
+
   async shutdownPlugin(pluginName: string): Promise<void> {
     const plugin = this.registry.getPlugin(pluginName);
     if (!plugin) {
@@ -235,9 +641,22 @@ export class DefaultPluginManager implements PluginManager {
       return; // Plugin not initialized, nothing to shutdown
     }
 
+    // Dependents go first so they never run without their dependencies
+    for (const dependent of this.initializedPlugins) {
+      if (this.getPluginDependencies(dependent).includes(pluginName)) {
+        await this.shutdownPlugin(dependent);
+      }
+    }
+
     try {
       await plugin.cleanup();
+      await this.authManager?.revokeToken(pluginName);
       this.initializedPlugins.delete(pluginName);
+      for (const key of Array.from(this.toolValidators.keys())) {
+        if (key.startsWith(`${pluginName}.`)) {
+          this.toolValidators.delete(key);
+        }
+      }
       console.log(`Plugin ${pluginName} shut down successfully`);
     } catch (error) {
       console.error(`Error shutting down plugin ${pluginName}:`, error);
@@ -246,16 +665,22 @@ export class DefaultPluginManager implements PluginManager {
   }
 
   async shutdownAllPlugins(): Promise<void> {
-    const shutdownPromises = Array.from(this.initializedPlugins).map(
-      async (pluginName) => {
-        try {
-          await this.shutdownPlugin(pluginName);
-        } catch (error) {
-          console.error(`Failed to shutdown plugin ${pluginName}:`, error);
-        }
-      }
+    const { order } = resolveDependencyOrder(
+      Array.from(this.initializedPlugins, (name) => ({
+        name,
+        dependencies: this.getPluginDependencies(name).filter((dependency) =>
+          this.initializedPlugins.has(dependency)
+        ),
+      }))
     );
 
-    await Promise.all(shutdownPromises);
+    // Reverse startup order: dependents before their dependencies
+    for (const pluginName of order.reverse()) {
+      try {
+        await this.shutdownPlugin(pluginName);
+      } catch (error) {
+        console.error(`Failed to shutdown plugin ${pluginName}:`, error);
+      }
+    }
   }
 }
@@ -0,0 +1,161 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { PluginManager } from "./plugin-manager";
+import { InvalidToolArgumentsError } from "./tool-arguments";
+import { toCallToolResult } from "./tool-result";
+import { missingPromptArguments } from "./prompt-arguments";
+
+// Splits "plugin.tool" into its plugin and tool (or prompt) names
+function parseQualifiedName(name: string): [string, string] {
+  const separator = name.indexOf(".");
+  if (separator <= 0 || separator === name.length - 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid name "${name}". Expected: pluginName.name`
+    );
+  }
+  return [name.slice(0, separator), name.slice(separator + 1)];
+}
+
+// Aborted as soon as any of `signals` is; what AbortSignal.any() does on
+// Node 20.3 and later. dispose() detaches it from the signals again.
+function linkSignals(signals: AbortSignal[]): {
+  signal: AbortSignal;
+  dispose: () => void;
+} {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort();
+    }
+    signal.addEventListener("abort", abort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      for (const signal of signals) {
+        signal.removeEventListener("abort", abort);
+      }
+    },
+  };
+}
+
+/**
+ * MCP server session over the plugins of a PluginManager, in-process and
+ * process isolated alike. Each connected client gets its own instance; the
+ * SDK takes care of the initialize handshake, ping, cancellation and JSON-RPC
+ * error codes.
+ */
+export function createPluginMcpServer(
+  pluginManager: PluginManager,
+  serverInfo: { name: string; version: string }
+): Server {
+  const server = new Server(serverInfo, {
+    capabilities: {
+      tools: { listChanged: true },
+      resources: { listChanged: true },
+      prompts: { listChanged: true },
+    },
+  });
+
+  // Tool calls still running when the client disconnects are cancelled
+  const session = new AbortController();
+  server.onclose = () => session.abort();
+
+  server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: pluginManager.getAvailableTools(),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    if (!pluginManager.getAvailableTools().some((tool) => tool.name === name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    const [pluginName, toolName] = parseQualifiedName(name);
+    const call = linkSignals([extra.signal, session.signal]);
+    try {
+      const result = await pluginManager.executeTool(
+        pluginName,
+        toolName,
+        args ?? {},
+        call.signal
+      );
+      return toCallToolResult(result);
+    } catch (error) {
+      if (error instanceof InvalidToolArgumentsError) {
+        throw new McpError(error.code, error.message, { issues: error.issues });
+      }
+
+      // Failures of the tool itself are reported in the result, so that the
+      // model can see them
+      return {
+        content: [
+          {
+            type: "text",
+            text: error instanceof Error ? error.message : String(error),
+          },
+        ],
+        isError: true,
+      };
+    } finally {
+      call.dispose();
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, () => ({
+    resources: pluginManager.getAvailableResources(),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+    resourceTemplates: pluginManager.getAvailableResourceTemplates(),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: await pluginManager.readResource(request.params.uri),
+  }));
+
+  server.setRequestHandler(ListPromptsRequestSchema, () => ({
+    prompts: pluginManager.getAvailablePrompts(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const prompt = pluginManager
+      .getAvailablePrompts()
+      .find((prompt) => prompt.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = missingPromptArguments(prompt.arguments, args);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required arguments for prompt ${name}: ${missing.join(", ")}`
+      );
+    }
+
+    const [pluginName, promptName] = parseQualifiedName(name);
+    return (await pluginManager.getPrompt(
+      pluginName,
+      promptName,
+      args
+    )) as GetPromptResult;
+  });
+
+  return server;
+}
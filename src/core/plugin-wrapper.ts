@@ -1,8 +1,39 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  CallToolResultSchema,
+  GetPromptResult,
+} from "@modelcontextprotocol/sdk/types.js";
 import path from "path";
-import { pathToFileURL } from "url";
+import { AsyncLocalStorage } from "async_hooks";
+import {
+  PLUGIN_CALL_DEPTH_META_KEY,
+  PLUGIN_CALL_TOOL_METHOD,
+  PLUGIN_CONTEXT_METHOD,
+  PLUGIN_READY_NOTIFICATION,
+  PluginContextCall,
+  PluginContextResultSchema,
+  PluginHealthCheckRequestSchema,
+} from "./plugin-calls";
+import {
+  flattenTemplateVariables,
+  normalizeResourceContents,
+} from "./resource-contents";
+import { promptArgumentsShape } from "./prompt-arguments";
+import { jsonSchemaToZodShape } from "./json-schema-zod";
+import { declareDynamicCapabilities } from "./server-capabilities";
+import { toCallToolResult, toolResultText } from "./tool-result";
+import {
+  PluginContext,
+  PluginHealthReport,
+  Prompt,
+  PromptResult,
+  ResourceContents,
+} from "../types/plugin";
 
 interface PluginInterface {
   name: string;
@@ -12,8 +43,96 @@ interface PluginInterface {
   initialize(context: any): Promise<void>;
   getTools(): Array<any>;
   getResources(): Array<any>;
-  executeTool(name: string, args: any): Promise<any>;
+  executeTool(name: string, args: any, signal?: AbortSignal): Promise<any>;
   cleanup(): Promise<void>;
+  getResourceTemplates?(): Array<any>;
+  readResource?(
+    uri: string,
+    params: Record<string, string>
+  ): Promise<ResourceContents | ResourceContents[]>;
+  getPrompts?(): Prompt[];
+  getPrompt?(name: string, args: Record<string, string>): Promise<PromptResult>;
+  healthCheck?(): Promise<PluginHealthReport>;
+}
+
+// Depth of the tool call being handled, as reported by the ProcessManager
+const callDepth = new AsyncLocalStorage<number>();
+
+// Mirrors the in-process PluginContext. Everything except logging and
+// callTool is answered by the ProcessManager, which holds the master key and
+// the OAuth manager; this process only ever sees the values it asks for.
+async function createWrapperContext(
+  pluginName: string,
+  server: McpServer
+): Promise<PluginContext> {
+  const request = async (
+    call: PluginContextCall,
+    ...args: string[]
+  ): Promise<any> => {
+    const result = await server.server.request(
+      { method: PLUGIN_CONTEXT_METHOD, params: { call, args } },
+      PluginContextResultSchema
+    );
+
+    if (result.error) {
+      const error = new Error(result.error.message);
+      error.name = result.error.name;
+      throw error;
+    }
+    return result.value;
+  };
+
+  return {
+    pluginId: pluginName,
+    config: await request("getConfig"),
+    logger: {
+      info: (msg: string, ...args: any[]) =>
+        console.log(`[${pluginName}] INFO:`, msg, ...args),
+      warn: (msg: string, ...args: any[]) =>
+        console.warn(`[${pluginName}] WARN:`, msg, ...args),
+      error: (msg: string, ...args: any[]) =>
+        console.error(`[${pluginName}] ERROR:`, msg, ...args),
+      debug: (msg: string, ...args: any[]) =>
+        console.debug(`[${pluginName}] DEBUG:`, msg, ...args),
+    },
+    getCredential: (key: string) => request("getCredential", key),
+    setCredential: (key: string, value: string) =>
+      request("setCredential", key, value),
+    getAccessToken: () => request("getAccessToken"),
+    isAuthenticated: () => request("isAuthenticated"),
+    getTokenInfo: () => request("getTokenInfo"),
+    requireReauth: () => request("requireReauth"),
+    getAuthHeaders: () => request("getAuthHeaders"),
+    // Proxied through the ProcessManager, which enforces declared
+    // dependencies and the call depth limit
+    callTool: async (
+      targetPlugin: string,
+      toolName: string,
+      args: Record<string, any> = {}
+    ) => {
+      const result = await server.server.request(
+        {
+          method: PLUGIN_CALL_TOOL_METHOD,
+          params: {
+            plugin: targetPlugin,
+            tool: toolName,
+            arguments: args,
+            depth: callDepth.getStore() ?? 0,
+          },
+        },
+        CallToolResultSchema
+      );
+
+      if (result.isError) {
+        throw new Error(
+          `Tool ${targetPlugin}.${toolName} failed: ${
+            toolResultText(result) || "unknown error"
+          }`
+        );
+      }
+      return result;
+    },
+  };
 }
 
 async function runPluginAsServer(): Promise<void> {
@@ -28,10 +147,9 @@ async function runPluginAsServer(): Promise<void> {
   try {
     // Load the plugin module
     const pluginModulePath = path.resolve(pluginPath);
-    const pluginUrl = pathToFileURL(pluginModulePath).href;
 
-    // Dynamic import the plugin
-    const PluginClass = await import(pluginUrl);
+    // Load the plugin; TypeScript plugins are compiled by tsx on require
+    const PluginClass = require(pluginModulePath);
     const PluginConstructor = PluginClass.default || PluginClass;
 
     // Instantiate the plugin
@@ -43,88 +161,156 @@ async function runPluginAsServer(): Promise<void> {
       version: plugin.version || "1.0.0",
     });
 
+    // The context talks to the ProcessManager over this connection, so the
+    // server is connected before the plugin is initialized
+    declareDynamicCapabilities(server);
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+
     // Initialize the plugin
-    const context = {
-      logger: {
-        info: (msg: string, ...args: any[]) =>
-          console.log(`[${pluginName}] INFO:`, msg, ...args),
-        warn: (msg: string, ...args: any[]) =>
-          console.warn(`[${pluginName}] WARN:`, msg, ...args),
-        error: (msg: string, ...args: any[]) =>
-          console.error(`[${pluginName}] ERROR:`, msg, ...args),
-        debug: (msg: string, ...args: any[]) =>
-          console.debug(`[${pluginName}] DEBUG:`, msg, ...args),
-      },
-    };
+    const context = await createWrapperContext(pluginName, server);
 
     await plugin.initialize(context);
 
     // Register tools with the MCP server
     const tools = plugin.getTools();
     for (const tool of tools) {
-      server.tool(tool.name, tool.inputSchema, async (args: any) => {
-        try {
-          const result = await plugin.executeTool(tool.name, args);
-
-          // Ensure the result matches MCP format
-          if (result && result.content) {
-            return result;
-          } else {
-            // Convert legacy format to MCP format
+      // Arguments are validated against the converted schema, with defaults
+      // applied, before executeTool is called
+      server.tool(
+        tool.name,
+        tool.description ?? "",
+        jsonSchemaToZodShape(tool.inputSchema),
+        async (args, extra) => {
+          try {
+            const depth = Number(
+              extra._meta?.[PLUGIN_CALL_DEPTH_META_KEY] ?? 0
+            );
+            // Aborted when the ProcessManager cancels the call
+            const result = await callDepth.run(depth, () =>
+              plugin.executeTool(tool.name, args, extra.signal)
+            );
+            return toCallToolResult(result);
+          } catch (error) {
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
             return {
               content: [
                 {
                   type: "text",
-                  text:
-                    typeof result === "string"
-                      ? result
-                      : JSON.stringify(result, null, 2),
+                  text: JSON.stringify(
+                    {
+                      error: errorMessage,
+                      status: "failed",
+                    },
+                    null,
+                    2
+                  ),
                 },
               ],
+              isError: true,
             };
           }
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    error: errorMessage,
-                    status: "failed",
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-            isError: true,
-          };
         }
-      });
+      );
     }
 
-    // Register resources with the MCP server
+    // Register resources and resource templates with the MCP server
+    const readResource = async (
+      uri: string,
+      params: Record<string, string>,
+      mimeType?: string
+    ) => {
+      if (!plugin.readResource) {
+        throw new Error(`Plugin ${pluginName} does not implement readResource`);
+      }
+      const contents = await plugin.readResource(uri, params);
+      return { contents: normalizeResourceContents(contents, uri, mimeType) };
+    };
+
     try {
       const resources = plugin.getResources();
       for (const resource of resources) {
-        server.resource(resource.name, resource.uri, async () => ({
-          contents: [
-            {
-              uri: resource.uri,
-              text: resource.description || "Resource content",
-              mimeType: resource.mimeType || "text/plain",
-            },
-          ],
-        }));
+        server.resource(
+          resource.name,
+          resource.uri,
+          {
+            ...(resource.description
+              ? { description: resource.description }
+              : {}),
+            ...(resource.mimeType ? { mimeType: resource.mimeType } : {}),
+          },
+          (uri) => readResource(uri.href, {}, resource.mimeType)
+        );
+      }
+
+      for (const template of plugin.getResourceTemplates?.() ?? []) {
+        server.resource(
+          template.name,
+          new ResourceTemplate(template.uriTemplate, { list: undefined }),
+          {
+            ...(template.description
+              ? { description: template.description }
+              : {}),
+            ...(template.mimeType ? { mimeType: template.mimeType } : {}),
+          },
+          (uri, variables) =>
+            readResource(
+              uri.href,
+              flattenTemplateVariables(variables),
+              template.mimeType
+            )
+        );
       }
     } catch (error) {
       // Plugin might not implement getResources
       console.warn(`Plugin ${pluginName} does not support resources:`, error);
     }
 
+    // Register prompts with the MCP server
+    for (const prompt of plugin.getPrompts?.() ?? []) {
+      const getPrompt = async (
+        args: Record<string, string>
+      ): Promise<GetPromptResult> => {
+        if (!plugin.getPrompt) {
+          throw new Error(`Plugin ${pluginName} does not implement getPrompt`);
+        }
+        return (await plugin.getPrompt(prompt.name, args)) as GetPromptResult;
+      };
+
+      if (prompt.arguments?.length) {
+        server.prompt(
+          prompt.name,
+          prompt.description ?? "",
+          promptArgumentsShape(prompt.arguments),
+          (args) => getPrompt(args as Record<string, string>)
+        );
+      } else {
+        server.prompt(prompt.name, prompt.description ?? "", () =>
+          getPrompt({})
+        );
+      }
+    }
+
+    // Answered after the ProcessManager's ping succeeds
+    server.server.setRequestHandler(
+      PluginHealthCheckRequestSchema,
+      async () => {
+        if (!plugin.healthCheck) {
+          return { healthy: true };
+        }
+        try {
+          const { healthy, message } = await plugin.healthCheck();
+          return { healthy, ...(message !== undefined ? { message } : {}) };
+        } catch (error) {
+          return {
+            healthy: false,
+            message: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }
+    );
+
     // Set up graceful shutdown
     const shutdown = async () => {
       console.log(`Shutting down plugin ${pluginName}...`);
@@ -141,9 +327,8 @@ async function runPluginAsServer(): Promise<void> {
     process.on("SIGTERM", shutdown);
     process.on("SIGINT", shutdown);
 
-    // Connect server to stdio transport
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    // Tell the ProcessManager the plugin's capabilities can now be listed
+    await server.server.notification({ method: PLUGIN_READY_NOTIFICATION });
 
     console.log(`Plugin ${pluginName} is running as MCP server`);
   } catch (error) {
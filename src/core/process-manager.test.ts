@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { backoffDelay } from "./process-manager";
+
+describe("backoffDelay", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("grows by the multiplier with every attempt", () => {
+    const delays = [1, 2, 3, 4].map((attempt) =>
+      backoffDelay(attempt, 1000, 2, 30000, 0)
+    );
+    expect(delays).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it("is capped at the maximum delay", () => {
+    expect(backoffDelay(6, 1000, 2, 30000, 0)).toBe(30000);
+    expect(backoffDelay(50, 1000, 2, 30000, 0)).toBe(30000);
+  });
+
+  it("varies by at most the jitter", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    expect(backoffDelay(1, 1000, 2, 30000, 0.2)).toBe(800);
+    expect(backoffDelay(50, 1000, 2, 30000, 0.2)).toBe(24000);
+
+    jest.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(backoffDelay(1, 1000, 2, 30000, 0.2)).toBe(1200);
+    expect(backoffDelay(50, 1000, 2, 30000, 0.2)).toBe(36000);
+  });
+
+  it("stays within the bounds for random jitter", () => {
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const delay = backoffDelay(attempt, 1000, 2, 30000, 0.2);
+      const base = Math.min(30000, 1000 * 2 ** (attempt - 1));
+      expect(delay).toBeGreaterThanOrEqual(base * 0.8);
+      expect(delay).toBeLessThanOrEqual(base * 1.2);
+    }
+  });
+});
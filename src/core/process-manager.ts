@@ -1,104 +1,292 @@
 import { spawn, ChildProcess } from "child_process";
 import { EventEmitter } from "events";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import { Tool, Resource, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import {
+  Tool,
+  Resource,
+  ResourceTemplate,
+  Prompt,
+  CallToolResult,
+  CallToolResultSchema,
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  GetPromptResult,
+} from "@modelcontextprotocol/sdk/types.js";
 import path from "path";
-import fs from "fs/promises";
+import os from "os";
+import { SecureStorage } from "../types/auth";
+import { PluginAuthConfig } from "../types/plugin";
+import { resolveDependencyOrder } from "./dependency-graph";
+import {
+  PLUGIN_CALL_DEPTH_META_KEY,
+  PLUGIN_HEALTH_CHECK_METHOD,
+  PluginCallToolRequestSchema,
+  PluginContextCall,
+  PluginContextRequestSchema,
+  PluginHealthCheckResultSchema,
+  PluginReadyNotificationSchema,
+  checkPluginCall,
+} from "./plugin-calls";
+import { PluginContextImpl } from "./plugin-manager";
+import { ChildProcessTransport } from "./child-process-transport";
+import {
+  CapabilityCache,
+  PluginCapabilities,
+  pluginFingerprint,
+} from "./capability-cache";
+import { ToolTimeoutError, resolveToolTimeout } from "./tool-deadlines";
+import {
+  ProcessUsage,
+  formatMegabytes,
+  parseMemoryLimit,
+  readProcessUsage,
+} from "./resource-limits";
+import { DefaultOAuthManager } from "./auth/oauth-manager";
+import {
+  DefaultAuthManager,
+  resolvePluginAuthConfig,
+} from "./auth/auth-manager";
 
 export interface PluginProcessConfig {
   name: string;
   path: string;
-  maxMemory?: string;
-  timeout?: number;
+  maxMemory?: string; // Heap and RSS limit, e.g. "256MB"
+  maxCpuTime?: number; // Seconds of CPU time a process may use
+  niceness?: number; // Scheduling priority, -20 (highest) to 19 (lowest)
+  timeout?: number; // Startup, shutdown and default tool call deadline (ms)
+  toolTimeouts?: Record<string, number>; // Deadlines for specific tools (ms)
+  restartAfterTimeouts?: number; // Consecutive tool call timeouts
+  healthCheckTimeout?: number; // Deadline for each health check (ms)
   restartPolicy?: "always" | "on-failure" | "never";
   maxRestarts?: number;
-  dependencies?: string[];
+  dependencies?: string[]; // Names of plugins that must be running first
+  auth?: PluginAuthConfig;
+  config?: Record<string, any>; // Exposed to the plugin as context.config
+  lazy?: boolean; // Spawned by the first call instead of at startup
+  idleTimeout?: number; // Lazy plugins are stopped after this long unused (ms)
+  capabilities?: Partial<PluginCapabilities>; // Manifest from plugin.json
 }
 
 export interface PluginProcess {
   config: PluginProcessConfig;
   process: ChildProcess | null;
   client: Client | null;
-  transport: StdioClientTransport | null;
-  status: "starting" | "running" | "stopping" | "stopped" | "failed";
-  restartCount: number;
+  transport: ChildProcessTransport | null;
+  status:
+    | "starting"
+    | "running"
+    | "stopping"
+    | "stopped"
+    | "failed"
+    | "backoff" // Waiting to be restarted
+    | "crashlooping" // Parked until restarted manually
+    | "idle"; // Lazy plugin without a process; the next call starts it
+  restartCount: number; // Reset after `stableUptime` of running
   lastRestart: Date | null;
+  restartTimer: NodeJS.Timeout | null;
+  stabilityTimer: NodeJS.Timeout | null;
+  recentFailures: number[]; // Timestamps within the crash loop window
+  transition: Promise<void> | null; // Idle start or stop calls wait for
+  idleTimer: NodeJS.Timeout | null;
+  activeCalls: number;
+  lastUsed: Date | null;
+  context: PluginContextImpl | null; // Answers the plugin's context requests
+  startedAt: Date | null; // When the current process was spawned
+  usage: PluginResourceUsage | null; // Last sample of the current process
+  lastFailure: PluginFailure | null;
+  consecutiveTimeouts: number;
+  health: PluginHealth; // Of the current process
   tools: Tool[];
   resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
   prompts: Prompt[];
 }
 
+export type PluginFailureReason =
+  | "exited" // Exited with code 0; only restarted by the "always" policy
+  | "crashed"
+  | "startup-failed"
+  | "health-check-failed"
+  | "memory-limit"
+  | "cpu-limit"
+  | "tool-timeouts";
+
+export interface PluginFailure {
+  reason: PluginFailureReason;
+  message: string;
+  at: Date;
+}
+
+export interface PluginHealth {
+  state:
+    | "unknown" // Not checked since the process started
+    | "healthy"
+    | "degraded" // Failing, but fewer times in a row than the threshold
+    | "unhealthy"; // About to be replaced
+  consecutiveFailures: number;
+  lastCheck: Date | null;
+  message: string | null; // Why the last check failed
+}
+
+function initialHealth(): PluginHealth {
+  return {
+    state: "unknown",
+    consecutiveFailures: 0,
+    lastCheck: null,
+    message: null,
+  };
+}
+
+export interface PluginResourceUsage extends ProcessUsage {
+  cpuPercent: number; // Since the previous sample
+  sampledAt: Date;
+}
+
+function isRunning(child: ChildProcess): boolean {
+  return child.exitCode === null && child.signalCode === null;
+}
+
+// Sends SIGTERM, then SIGKILL if the process is still running after
+// `gracePeriod` milliseconds (immediately when it is 0)
+function terminateProcess(child: ChildProcess, gracePeriod: number): void {
+  if (!isRunning(child)) {
+    return;
+  }
+
+  if (gracePeriod <= 0) {
+    child.kill("SIGKILL");
+    return;
+  }
+
+  child.kill("SIGTERM");
+  const forceKill = setTimeout(() => {
+    if (isRunning(child)) {
+      child.kill("SIGKILL");
+    }
+  }, gracePeriod);
+  child.once("exit", () => clearTimeout(forceKill));
+}
+
+// initialDelay * multiplier^(attempt - 1), capped at maxDelay and varied by up
+// to ±jitter (a fraction of the delay) so that plugins that fail together do
+// not restart in lockstep
+export function backoffDelay(
+  attempt: number,
+  initialDelay: number,
+  multiplier: number,
+  maxDelay: number,
+  jitter: number
+): number {
+  const delay = Math.min(maxDelay, initialDelay * multiplier ** (attempt - 1));
+  return Math.round(delay * (1 + jitter * (Math.random() * 2 - 1)));
+}
+
+export interface ProcessManagerOptions {
+  maxRestarts?: number;
+  restartDelay?: number;
+  maxRestartDelay?: number;
+  restartBackoffMultiplier?: number;
+  restartJitter?: number;
+  crashLoopThreshold?: number;
+  crashLoopWindow?: number;
+  stableUptime?: number;
+  healthCheckInterval?: number;
+  healthCheckTimeout?: number;
+  unhealthyThreshold?: number;
+  resourceCheckInterval?: number;
+  secureStorage?: SecureStorage;
+  oauthManager?: DefaultOAuthManager;
+  authManager?: DefaultAuthManager;
+  lazy?: boolean;
+  idleTimeout?: number;
+  capabilityCacheFile?: string;
+}
+
 export class ProcessManager extends EventEmitter {
   private plugins: Map<string, PluginProcess> = new Map();
   private readonly maxRestarts: number;
-  private readonly restartDelay: number;
+  private readonly restartDelay: number; // Delay before the first restart
+  private readonly maxRestartDelay: number;
+  private readonly restartBackoffMultiplier: number;
+  private readonly restartJitter: number;
+  private readonly crashLoopThreshold: number; // Failures within the window
+  private readonly crashLoopWindow: number;
+  private readonly stableUptime: number;
   private readonly healthCheckInterval: number;
+  private readonly healthCheckTimeout: number;
+  private readonly unhealthyThreshold: number; // Consecutive failed checks
   private healthCheckTimer: NodeJS.Timeout | null = null;
-
-  constructor(
-    options: {
-      maxRestarts?: number;
-      restartDelay?: number;
-      healthCheckInterval?: number;
-    } = {}
-  ) {
+  private healthChecksRunning = false;
+  private readonly resourceCheckInterval: number;
+  private resourceCheckTimer: NodeJS.Timeout | null = null;
+  private readonly secureStorage: SecureStorage | null;
+  private readonly oauthManager: DefaultOAuthManager | undefined;
+  private readonly authManager: DefaultAuthManager | undefined;
+  private readonly lazy: boolean; // Default for plugins that don't say
+  private readonly idleTimeout: number;
+  private readonly capabilityCache: CapabilityCache;
+
+  constructor(options: ProcessManagerOptions = {}) {
     super();
+    this.secureStorage = options.secureStorage ?? null;
+    this.oauthManager = options.oauthManager;
+    this.authManager = options.authManager;
     this.maxRestarts = options.maxRestarts ?? 3;
     this.restartDelay = options.restartDelay ?? 1000;
+    this.maxRestartDelay = options.maxRestartDelay ?? 30000;
+    this.restartBackoffMultiplier = options.restartBackoffMultiplier ?? 2;
+    this.restartJitter = options.restartJitter ?? 0.2;
+    this.crashLoopThreshold = options.crashLoopThreshold ?? 5;
+    this.crashLoopWindow = options.crashLoopWindow ?? 60000;
+    this.stableUptime = options.stableUptime ?? 300000;
     this.healthCheckInterval = options.healthCheckInterval ?? 30000;
+    this.healthCheckTimeout = options.healthCheckTimeout ?? 5000;
+    this.unhealthyThreshold = options.unhealthyThreshold ?? 3;
+    this.resourceCheckInterval = options.resourceCheckInterval ?? 5000;
+    this.lazy = options.lazy ?? false;
+    this.idleTimeout = options.idleTimeout ?? 600000;
+    this.capabilityCache = new CapabilityCache(options.capabilityCacheFile);
   }
 
-  async discoverPlugins(
-    pluginsDir: string = "plugins"
-  ): Promise<PluginProcessConfig[]> {
-    const configs: PluginProcessConfig[] = [];
-
-    try {
-      const entries = await fs.readdir(pluginsDir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          const pluginPath = path.join(pluginsDir, entry.name);
-          const configPath = path.join(pluginPath, "plugin.json");
-          const packagePath = path.join(pluginPath, "package.json");
-
-          try {
-            // Check if plugin.json exists
-            const configContent = await fs.readFile(configPath, "utf-8");
-            const config = JSON.parse(configContent);
-
-            // Load package.json for dependencies
-            let dependencies: string[] = [];
-            try {
-              const packageContent = await fs.readFile(packagePath, "utf-8");
-              const packageJson = JSON.parse(packageContent);
-              dependencies = Object.keys(packageJson.dependencies || {});
-            } catch (err) {
-              console.warn(
-                `Could not read package.json for plugin ${entry.name}`
-              );
-            }
-
-            configs.push({
-              name: entry.name,
-              path: pluginPath,
-              maxMemory: config.process?.maxMemory ?? "256MB",
-              timeout: config.process?.timeout ?? 30000,
-              restartPolicy: config.process?.restartPolicy ?? "on-failure",
-              maxRestarts: config.process?.maxRestarts ?? this.maxRestarts,
-              dependencies,
-            });
-          } catch (err) {
-            console.warn(`Skipping plugin ${entry.name}: ${err}`);
-          }
-        }
-      }
-    } catch (err) {
-      console.error(`Failed to discover plugins: ${err}`);
-    }
-
-    return configs;
+  // The process configuration described by a plugin's plugin.json
+  createPluginConfig(
+    name: string,
+    pluginPath: string,
+    manifest: any
+  ): PluginProcessConfig {
+    const settings = manifest.process;
+
+    return {
+      name,
+      path: pluginPath,
+      maxMemory: settings?.maxMemory ?? "256MB",
+      ...(settings?.maxCpuTime !== undefined
+        ? { maxCpuTime: settings.maxCpuTime }
+        : {}),
+      ...(settings?.niceness !== undefined
+        ? { niceness: settings.niceness }
+        : {}),
+      timeout: settings?.timeout ?? 30000,
+      ...(settings?.toolTimeouts
+        ? { toolTimeouts: settings.toolTimeouts }
+        : {}),
+      ...(settings?.restartAfterTimeouts !== undefined
+        ? { restartAfterTimeouts: settings.restartAfterTimeouts }
+        : {}),
+      ...(settings?.healthCheckTimeout !== undefined
+        ? { healthCheckTimeout: settings.healthCheckTimeout }
+        : {}),
+      restartPolicy: settings?.restartPolicy ?? "on-failure",
+      maxRestarts: settings?.maxRestarts ?? this.maxRestarts,
+      dependencies: manifest.dependencies ?? [],
+      ...(manifest.auth ? { auth: manifest.auth } : {}),
+      ...(manifest.config ? { config: manifest.config } : {}),
+      lazy: settings?.lazy ?? this.lazy,
+      idleTimeout: settings?.idleTimeout ?? this.idleTimeout,
+      ...(manifest.capabilities ? { capabilities: manifest.capabilities } : {}),
+    };
   }
 
   async startPlugin(config: PluginProcessConfig): Promise<void> {
@@ -114,101 +302,413 @@ export class ProcessManager extends EventEmitter {
       status: "starting",
       restartCount: 0,
       lastRestart: null,
+      restartTimer: null,
+      stabilityTimer: null,
+      recentFailures: [],
+      transition: null,
+      idleTimer: null,
+      activeCalls: 0,
+      lastUsed: null,
+      context: null,
+      startedAt: null,
+      usage: null,
+      lastFailure: null,
+      consecutiveTimeouts: 0,
+      health: initialHealth(),
       tools: [],
       resources: [],
+      resourceTemplates: [],
       prompts: [],
     };
 
     this.plugins.set(config.name, plugin);
+
+    // A lazy plugin is only spawned now if its capabilities are unknown
+    if (config.lazy) {
+      const capabilities = await this.loadKnownCapabilities(config);
+      if (capabilities) {
+        // Not advertised when it could not start anyway
+        if (this.secureStorage && config.auth) {
+          await this.checkRequiredCredentials(
+            config.name,
+            config.auth,
+            this.secureStorage
+          );
+        }
+        Object.assign(plugin, capabilities);
+        plugin.status = "idle";
+        this.emit("pluginIdle", config.name, plugin);
+        return;
+      }
+    }
+
     await this.spawnPluginProcess(plugin);
   }
 
+  // The capabilities listed by the plugin's last process, if its files have
+  // not changed since, or else those declared in its plugin.json
+  private async loadKnownCapabilities(
+    config: PluginProcessConfig
+  ): Promise<PluginCapabilities | null> {
+    const fingerprint = await this.fingerprintPlugin(config);
+    const cached = fingerprint
+      ? await this.capabilityCache.get(config.name, fingerprint)
+      : null;
+    if (cached) {
+      return cached;
+    }
+
+    if (!config.capabilities) {
+      return null;
+    }
+
+    return {
+      tools: config.capabilities.tools ?? [],
+      resources: config.capabilities.resources ?? [],
+      resourceTemplates: config.capabilities.resourceTemplates ?? [],
+      prompts: config.capabilities.prompts ?? [],
+    };
+  }
+
+  private fingerprintPlugin(
+    config: PluginProcessConfig
+  ): Promise<string | null> {
+    return pluginFingerprint(config.path);
+  }
+
+  private async cacheCapabilities(plugin: PluginProcess): Promise<void> {
+    const fingerprint = await this.fingerprintPlugin(plugin.config);
+    if (!fingerprint) return;
+
+    try {
+      await this.capabilityCache.set(plugin.config.name, fingerprint, {
+        tools: plugin.tools,
+        resources: plugin.resources,
+        resourceTemplates: plugin.resourceTemplates,
+        prompts: plugin.prompts,
+      });
+    } catch (error) {
+      console.warn(
+        `Failed to cache capabilities of plugin ${plugin.config.name}:`,
+        error
+      );
+    }
+  }
+
   private async spawnPluginProcess(plugin: PluginProcess): Promise<void> {
-    const wrapperPath = path.join(__dirname, "plugin-wrapper.js");
+    plugin.status = "starting";
+    // The wrapper is TypeScript as well when the server runs under tsx
+    const wrapperPath = path.join(
+      __dirname,
+      `plugin-wrapper${path.extname(__filename)}`
+    );
     const pluginPath = path.join(plugin.config.path, "index.ts");
+    const env = this.buildPluginEnvironment(plugin.config);
+    plugin.context = await this.createPluginContext(plugin.config);
+
+    // Plugins are shipped as TypeScript, which tsx compiles on load. V8
+    // aborts the process when its heap outgrows the limit; the rest of the
+    // memory (RSS) is checked by the resource monitor.
+    const nodeArgs = ["--require", "tsx/cjs"];
+    if (plugin.config.maxMemory) {
+      nodeArgs.push(
+        `--max-old-space-size=${Math.floor(
+          parseMemoryLimit(plugin.config.maxMemory) / (1024 * 1024)
+        )}`
+      );
+    }
 
-    // Spawn the plugin process
-    plugin.process = spawn("node", [wrapperPath, pluginPath], {
-      stdio: ["pipe", "pipe", "pipe"],
-      env: {
-        ...process.env,
-        PLUGIN_NAME: plugin.config.name,
-        PLUGIN_PATH: plugin.config.path,
-      },
+    // Spawn the plugin process. Its stdin/stdout carry MCP messages; its
+    // stderr is passed through so plugin logs end up in the server's.
+    const child = spawn("node", [...nodeArgs, wrapperPath, pluginPath], {
+      stdio: ["pipe", "pipe", "inherit"],
+      env,
     });
+    plugin.process = child;
+    plugin.startedAt = new Date();
+    plugin.usage = null;
+    plugin.consecutiveTimeouts = 0;
+    plugin.health = initialHealth();
+
+    if (plugin.config.niceness !== undefined && child.pid !== undefined) {
+      try {
+        os.setPriority(child.pid, plugin.config.niceness);
+      } catch (error) {
+        console.warn(
+          `Failed to set niceness of plugin ${plugin.config.name}:`,
+          error
+        );
+      }
+    }
 
-    if (!plugin.process.stdin || !plugin.process.stdout) {
+    if (!child.stdin || !child.stdout) {
       throw new Error(
         `Failed to create stdio streams for plugin ${plugin.config.name}`
       );
     }
 
     // Set up transport and client
-    plugin.transport = new StdioClientTransport({
-      command: "node",
-      args: [wrapperPath, pluginPath],
-      env: {
-        ...process.env,
-        PLUGIN_NAME: plugin.config.name,
-        PLUGIN_PATH: plugin.config.path,
-      },
-    });
+    plugin.transport = new ChildProcessTransport(child);
 
-    plugin.client = new Client({
+    const client = new Client({
       name: `plugin-manager-${plugin.config.name}`,
       version: "1.0.0",
     });
+    plugin.client = client;
+
+    // Tool calls the plugin makes to other plugins through its context
+    client.setRequestHandler(PluginCallToolRequestSchema, (request, extra) =>
+      this.handlePluginToolCall(plugin.config, request.params, extra.signal)
+    );
+
+    // Everything else the plugin does through its context
+    client.setRequestHandler(PluginContextRequestSchema, (request) =>
+      this.handleContextRequest(plugin, request.params)
+    );
+
+    // The wrapper initializes the plugin after connecting, and only then are
+    // its tools, resources and prompts known
+    const ready = new Promise<void>((resolve) =>
+      client.setNotificationHandler(PluginReadyNotificationSchema, () =>
+        resolve()
+      )
+    );
 
-    // Handle process events
-    plugin.process.on("error", (error) => {
+    // Handle process events. Events from a process that has since been
+    // stopped or replaced are ignored.
+    child.on("error", (error) => {
+      if (plugin.process !== child) return;
       console.error(`Plugin ${plugin.config.name} process error:`, error);
-      this.handlePluginFailure(plugin);
+      this.handlePluginFailure(plugin, "crashed", error.message);
     });
 
-    plugin.process.on("exit", (code, signal) => {
+    child.on("exit", (code, signal) => {
+      if (plugin.process !== child) return;
       console.log(
         `Plugin ${plugin.config.name} exited with code ${code}, signal ${signal}`
       );
-      plugin.status = code === 0 ? "stopped" : "failed";
-      this.handlePluginFailure(plugin);
+      if (code === 0) {
+        this.handlePluginFailure(plugin, "exited", "exited with code 0");
+      } else {
+        // Including V8 aborting on an exhausted heap, which SIGABRT alone
+        // does not tell apart from other aborts. Only the resource monitor,
+        // having seen the RSS cross the limit, reports "memory-limit".
+        this.handlePluginFailure(
+          plugin,
+          "crashed",
+          `exited with code ${code}, signal ${signal}`
+        );
+      }
     });
 
     // Connect to the plugin
     try {
-      await plugin.client.connect(plugin.transport);
+      await client.connect(plugin.transport);
+      await this.waitUntilReady(plugin.config, child, ready);
       await this.loadPluginCapabilities(plugin);
       plugin.status = "running";
+      this.scheduleStabilityReset(plugin);
+      this.scheduleIdleShutdown(plugin);
+      this.cacheCapabilities(plugin);
 
       this.emit("pluginStarted", plugin.config.name, plugin);
       console.log(`Plugin ${plugin.config.name} started successfully`);
     } catch (error) {
+      if (plugin.process !== child) return;
       console.error(
         `Failed to connect to plugin ${plugin.config.name}:`,
         error
       );
       plugin.status = "failed";
-      this.handlePluginFailure(plugin);
+      this.handlePluginFailure(
+        plugin,
+        "startup-failed",
+        error instanceof Error ? error.message : String(error)
+      );
     }
   }
 
+  private waitUntilReady(
+    config: PluginProcessConfig,
+    child: ChildProcess,
+    ready: Promise<void>
+  ): Promise<void> {
+    const timeout = config.timeout ?? 30000;
+
+    return new Promise((resolve, reject) => {
+      const finish = (error?: Error) => {
+        clearTimeout(timer);
+        child.off("exit", onExit);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const onExit = () =>
+        finish(new Error(`Plugin ${config.name} exited during startup`));
+      const timer = setTimeout(
+        () =>
+          finish(
+            new Error(
+              `Plugin ${config.name} did not initialize within ${timeout}ms`
+            )
+          ),
+        timeout
+      );
+
+      child.once("exit", onExit);
+      ready.then(() => finish());
+    });
+  }
+
+  // Plugins only inherit a minimal environment; the server's own secrets are
+  // never forwarded. Credentials are requested through the context instead.
+  private buildPluginEnvironment(
+    config: PluginProcessConfig
+  ): Record<string, string> {
+    const env: Record<string, string> = {
+      ...getDefaultEnvironment(),
+      PLUGIN_NAME: config.name,
+      PLUGIN_PATH: config.path,
+    };
+
+    if (process.env.NODE_ENV) {
+      env.NODE_ENV = process.env.NODE_ENV;
+    }
+
+    return env;
+  }
+
+  // The same PluginContext in-process plugins get. Credential reads made
+  // through it are attributed to the plugin in the audit log.
+  private async createPluginContext(
+    config: PluginProcessConfig
+  ): Promise<PluginContextImpl | null> {
+    if (!this.secureStorage) {
+      if (Object.keys(config.auth?.fields ?? {}).length > 0) {
+        console.warn(
+          `Plugin ${config.name} declares credentials, but no secure storage is configured`
+        );
+      }
+      return null;
+    }
+
+    const storage =
+      this.secureStorage.withActor?.(`plugin:${config.name}`) ??
+      this.secureStorage;
+    if (config.auth) {
+      await this.authenticatePlugin(config.name, config.auth, storage);
+    }
+
+    return new PluginContextImpl(
+      config.name,
+      config.config ?? {},
+      storage,
+      this.oauthManager,
+      this.authManager,
+      config.auth
+    );
+  }
+
+  // Starts the auth session behind getAuthHeaders() for api-key and jwt
+  // plugins. As for in-process plugins, a plugin whose auth is required does
+  // not start without its credentials; otherwise missing ones are only
+  // reported, since the plugin may still work without them or store them
+  // itself.
+  private async authenticatePlugin(
+    name: string,
+    auth: PluginAuthConfig,
+    storage: SecureStorage
+  ): Promise<void> {
+    await this.checkRequiredCredentials(name, auth, storage);
+
+    // OAuth tokens come from the OAuth manager, and custom auth handlers live
+    // in the plugin process
+    if (!this.authManager || auth.type === "oauth2" || auth.type === "custom") {
+      return;
+    }
+
+    const authConfig = await resolvePluginAuthConfig(name, auth, storage);
+    if (!authConfig) {
+      if (auth.required) {
+        throw new Error(`Plugin ${name} requires ${auth.type} credentials`);
+      }
+      return;
+    }
+
+    const result = await this.authManager.authenticate(name, authConfig);
+    if (!result.success) {
+      if (auth.required) {
+        throw new Error(
+          `Authentication failed for plugin ${name}: ${result.error}`
+        );
+      }
+      console.warn(`Failed to authenticate plugin ${name}: ${result.error}`);
+    }
+  }
+
+  private async checkRequiredCredentials(
+    name: string,
+    auth: PluginAuthConfig,
+    storage: SecureStorage
+  ): Promise<void> {
+    const missing: string[] = [];
+    for (const [field, spec] of Object.entries(auth.fields)) {
+      if (
+        spec.required &&
+        (await storage.retrieveCredential(name, field)) === null
+      ) {
+        missing.push(field);
+      }
+    }
+
+    if (missing.length === 0) {
+      return;
+    }
+    if (auth.required) {
+      throw new Error(
+        `Plugin ${name} is missing required credentials: ${missing.join(", ")}`
+      );
+    }
+    console.warn(
+      `Plugin ${name} is missing credentials: ${missing.join(", ")}`
+    );
+  }
+
   private async loadPluginCapabilities(plugin: PluginProcess): Promise<void> {
     if (!plugin.client) return;
 
+    // Plugins only answer list requests for capabilities they declare
+    const capabilities = plugin.client.getServerCapabilities() ?? {};
+
     try {
       // Load tools
-      const toolsResult = await plugin.client.listTools();
+      const toolsResult = capabilities.tools
+        ? await plugin.client.listTools()
+        : { tools: [] };
       plugin.tools = toolsResult.tools || [];
 
-      // Load resources
-      const resourcesResult = await plugin.client.listResources();
-      plugin.resources = resourcesResult.resources || [];
+      // Load resources and resource templates
+      if (capabilities.resources) {
+        const resourcesResult = await plugin.client.listResources();
+        plugin.resources = resourcesResult.resources || [];
+
+        const templatesResult = await plugin.client.listResourceTemplates();
+        plugin.resourceTemplates = templatesResult.resourceTemplates || [];
+      } else {
+        plugin.resources = [];
+        plugin.resourceTemplates = [];
+      }
 
       // Load prompts
-      const promptsResult = await plugin.client.listPrompts();
+      const promptsResult = capabilities.prompts
+        ? await plugin.client.listPrompts()
+        : { prompts: [] };
       plugin.prompts = promptsResult.prompts || [];
 
       console.log(
-        `Loaded capabilities for ${plugin.config.name}: ${plugin.tools.length} tools, ${plugin.resources.length} resources, ${plugin.prompts.length} prompts`
+        `Loaded capabilities for ${plugin.config.name}: ${plugin.tools.length} tools, ${plugin.resources.length} resources, ${plugin.resourceTemplates.length} resource templates, ${plugin.prompts.length} prompts`
       );
     } catch (error) {
       console.error(
@@ -219,57 +719,164 @@ export class ProcessManager extends EventEmitter {
     }
   }
 
-  private async handlePluginFailure(plugin: PluginProcess): Promise<void> {
+  private async handlePluginFailure(
+    plugin: PluginProcess,
+    reason: PluginFailureReason,
+    message: string
+  ): Promise<void> {
     plugin.status = "failed";
+    plugin.lastFailure = { reason, message, at: new Date() };
+    this.clearTimers(plugin);
+
+    // Detach the process first so that its remaining events are ignored, and
+    // never leave it running without a client talking to it
+    if (plugin.process) {
+      terminateProcess(plugin.process, 0);
+      plugin.process = null;
+    }
 
-    // Clean up client connection
-    if (plugin.client) {
-      try {
-        await plugin.client.close();
-      } catch (err) {
+    // Clean up client connection without waiting for it, so the plugin's
+    // next status is decided before anyone can observe it as failed
+    const client = plugin.client;
+    plugin.client = null;
+    plugin.transport = null;
+    client
+      ?.close()
+      .catch((err) =>
         console.warn(
           `Error closing client for plugin ${plugin.config.name}:`,
           err
-        );
-      }
-      plugin.client = null;
+        )
+      );
+
+    const name = plugin.config.name;
+    const now = Date.now();
+    plugin.recentFailures = plugin.recentFailures.filter(
+      (at) => now - at < this.crashLoopWindow
+    );
+    plugin.recentFailures.push(now);
+
+    const policy = plugin.config.restartPolicy ?? "on-failure";
+    if (
+      policy === "never" ||
+      (policy === "on-failure" && reason === "exited")
+    ) {
+      plugin.status = reason === "exited" ? "stopped" : "failed";
+      console.log(`Plugin ${name} will not be restarted`);
+      this.emit("pluginFailed", name, new Error(message));
+      return;
     }
 
-    plugin.transport = null;
-    plugin.process = null;
+    if (plugin.recentFailures.length >= this.crashLoopThreshold) {
+      plugin.status = "crashlooping";
+      console.error(
+        `Plugin ${name} failed ${plugin.recentFailures.length} times within ${this.crashLoopWindow}ms and will not be restarted until it is restarted manually`
+      );
+      this.emit("pluginFailed", name, new Error("Crash loop detected"));
+      return;
+    }
+
+    if (
+      plugin.restartCount >= (plugin.config.maxRestarts ?? this.maxRestarts)
+    ) {
+      plugin.status = "failed";
+      console.log(`Plugin ${name} will not be restarted`);
+      this.emit("pluginFailed", name, new Error("Max restarts exceeded"));
+      return;
+    }
+
+    plugin.restartCount++;
+    plugin.lastRestart = new Date();
+    plugin.status = "backoff";
+
+    const delay = backoffDelay(
+      plugin.restartCount,
+      this.restartDelay,
+      this.restartBackoffMultiplier,
+      this.maxRestartDelay,
+      this.restartJitter
+    );
+    console.log(
+      `Restarting plugin ${name} in ${delay}ms (attempt ${plugin.restartCount})`
+    );
+    this.emit(
+      "pluginRestarting",
+      name,
+      plugin.restartCount,
+      plugin.lastFailure
+    );
+
+    plugin.restartTimer = setTimeout(async () => {
+      plugin.restartTimer = null;
+      try {
+        await this.spawnPluginProcess(plugin);
+      } catch (error) {
+        // Failures before the process was spawned, such as credentials that
+        // have since been removed
+        console.error(`Failed to restart plugin ${name}:`, error);
+        plugin.status = "failed";
+        plugin.lastFailure = {
+          reason: "startup-failed",
+          message: error instanceof Error ? error.message : String(error),
+          at: new Date(),
+        };
+        this.emit("pluginFailed", name, error);
+      }
+    }, delay);
+  }
+
+  // Forgets earlier restarts once the plugin has stayed up for `stableUptime`
+  private scheduleStabilityReset(plugin: PluginProcess): void {
+    this.clearTimers(plugin);
+    plugin.stabilityTimer = setTimeout(() => {
+      plugin.stabilityTimer = null;
+      if (plugin.status === "running") {
+        plugin.restartCount = 0;
+      }
+    }, this.stableUptime);
+  }
 
-    // Determine if we should restart
-    const shouldRestart =
-      plugin.config.restartPolicy === "always" ||
-      (plugin.config.restartPolicy === "on-failure" &&
-        plugin.restartCount < (plugin.config.maxRestarts ?? this.maxRestarts));
+  private clearTimers(plugin: PluginProcess): void {
+    if (plugin.restartTimer) {
+      clearTimeout(plugin.restartTimer);
+      plugin.restartTimer = null;
+    }
+    if (plugin.stabilityTimer) {
+      clearTimeout(plugin.stabilityTimer);
+      plugin.stabilityTimer = null;
+    }
+    this.clearIdleTimer(plugin);
+  }
 
-    if (shouldRestart) {
-      plugin.restartCount++;
-      plugin.lastRestart = new Date();
+  // Stops a lazy plugin once it has gone `idleTimeout` without calls. It
+  // stays advertised and the next call starts it again.
+  private scheduleIdleShutdown(plugin: PluginProcess): void {
+    const { lazy, idleTimeout } = plugin.config;
+    this.clearIdleTimer(plugin);
+    if (!lazy || !idleTimeout || plugin.activeCalls > 0) return;
+
+    plugin.idleTimer = setTimeout(() => {
+      plugin.idleTimer = null;
+      if (plugin.status !== "running" || plugin.activeCalls > 0) return;
 
       console.log(
-        `Restarting plugin ${plugin.config.name} (attempt ${plugin.restartCount})`
+        `Stopping plugin ${plugin.config.name} after ${idleTimeout}ms without calls`
       );
+      plugin.transition = this.stopPluginProcess(plugin)
+        .then(() => {
+          plugin.status = "idle";
+          this.emit("pluginIdle", plugin.config.name, plugin);
+        })
+        .finally(() => {
+          plugin.transition = null;
+        });
+    }, idleTimeout);
+  }
 
-      setTimeout(async () => {
-        try {
-          await this.spawnPluginProcess(plugin);
-        } catch (error) {
-          console.error(
-            `Failed to restart plugin ${plugin.config.name}:`,
-            error
-          );
-          this.emit("pluginFailed", plugin.config.name, error);
-        }
-      }, this.restartDelay);
-    } else {
-      console.log(`Plugin ${plugin.config.name} will not be restarted`);
-      this.emit(
-        "pluginFailed",
-        plugin.config.name,
-        new Error("Max restarts exceeded")
-      );
+  private clearIdleTimer(plugin: PluginProcess): void {
+    if (plugin.idleTimer) {
+      clearTimeout(plugin.idleTimer);
+      plugin.idleTimer = null;
     }
   }
 
@@ -279,7 +886,16 @@ export class ProcessManager extends EventEmitter {
       throw new Error(`Plugin ${name} is not managed`);
     }
 
+    await this.stopPluginProcess(plugin);
+
+    plugin.status = "stopped";
+    this.emit("pluginStopped", name);
+  }
+
+  private async stopPluginProcess(plugin: PluginProcess): Promise<void> {
+    const name = plugin.config.name;
     plugin.status = "stopping";
+    this.clearTimers(plugin);
 
     // Close MCP client connection
     if (plugin.client) {
@@ -290,20 +906,21 @@ export class ProcessManager extends EventEmitter {
       }
     }
 
-    // Terminate the process
-    if (plugin.process && !plugin.process.killed) {
-      plugin.process.kill("SIGTERM");
+    plugin.client = null;
+    plugin.transport = null;
 
-      // Force kill after timeout
-      setTimeout(() => {
-        if (plugin.process && !plugin.process.killed) {
-          plugin.process.kill("SIGKILL");
-        }
-      }, plugin.config.timeout ?? 30000);
+    // Terminate the process, force killing it after the timeout
+    if (plugin.process) {
+      terminateProcess(plugin.process, plugin.config.timeout ?? 30000);
+      plugin.process = null;
     }
+  }
 
-    plugin.status = "stopped";
-    this.emit("pluginStopped", name);
+  // Stops the plugin and forgets it, so that it can be started again with a
+  // new configuration
+  async removePlugin(name: string): Promise<void> {
+    await this.stopPlugin(name);
+    this.plugins.delete(name);
   }
 
   async restartPlugin(name: string): Promise<void> {
@@ -317,8 +934,9 @@ export class ProcessManager extends EventEmitter {
     // Wait a bit for cleanup
     await new Promise((resolve) => setTimeout(resolve, 1000));
 
-    // Reset restart count for manual restarts
+    // Manual restarts start over, also for crash looping plugins
     plugin.restartCount = 0;
+    plugin.recentFailures = [];
     await this.spawnPluginProcess(plugin);
   }
 
@@ -326,7 +944,7 @@ export class ProcessManager extends EventEmitter {
     const allTools: Tool[] = [];
 
     for (const [pluginName, plugin] of this.plugins) {
-      if (plugin.status === "running") {
+      if (this.isAvailable(plugin)) {
         // Namespace tools with plugin name
         const namespacedTools = plugin.tools.map((tool) => ({
           ...tool,
@@ -343,7 +961,7 @@ export class ProcessManager extends EventEmitter {
     const allResources: Resource[] = [];
 
     for (const plugin of this.plugins.values()) {
-      if (plugin.status === "running") {
+      if (this.isAvailable(plugin)) {
         allResources.push(...plugin.resources);
       }
     }
@@ -351,11 +969,23 @@ export class ProcessManager extends EventEmitter {
     return allResources;
   }
 
+  getAllResourceTemplates(): ResourceTemplate[] {
+    const allTemplates: ResourceTemplate[] = [];
+
+    for (const plugin of this.plugins.values()) {
+      if (this.isAvailable(plugin)) {
+        allTemplates.push(...plugin.resourceTemplates);
+      }
+    }
+
+    return allTemplates;
+  }
+
   getAllPrompts(): Prompt[] {
     const allPrompts: Prompt[] = [];
 
     for (const [pluginName, plugin] of this.plugins) {
-      if (plugin.status === "running") {
+      if (this.isAvailable(plugin)) {
         // Namespace prompts with plugin name
         const namespacedPrompts = plugin.prompts.map((prompt) => ({
           ...prompt,
@@ -368,31 +998,287 @@ export class ProcessManager extends EventEmitter {
     return allPrompts;
   }
 
+  // Rejects with a ToolTimeoutError when the call outlives its deadline.
+  // Timeouts and aborts of `signal` cancel the call in the plugin.
   async executeToolInPlugin(
     pluginName: string,
     toolName: string,
-    args: any
+    args: any,
+    options: { signal?: AbortSignal; depth?: number } = {}
   ): Promise<any> {
+    const plugin = this.getPlugin(pluginName);
+    const timeout = resolveToolTimeout(plugin.config, toolName);
+
+    try {
+      const result = await this.withRunningPlugin(plugin, (client) =>
+        client.callTool(
+          {
+            name: toolName,
+            arguments: args,
+            ...(options.depth !== undefined
+              ? { _meta: { [PLUGIN_CALL_DEPTH_META_KEY]: options.depth } }
+              : {}),
+          },
+          CallToolResultSchema,
+          { timeout, ...(options.signal ? { signal: options.signal } : {}) }
+        )
+      );
+      plugin.consecutiveTimeouts = 0;
+      return result;
+    } catch (error) {
+      if (
+        error instanceof McpError &&
+        error.code === ErrorCode.RequestTimeout
+      ) {
+        this.recordToolTimeout(plugin);
+        throw new ToolTimeoutError(pluginName, toolName, timeout);
+      }
+
+      console.error(
+        `Error executing tool ${toolName} in plugin ${pluginName}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  private recordToolTimeout(plugin: PluginProcess): void {
+    plugin.consecutiveTimeouts++;
+
+    const limit = plugin.config.restartAfterTimeouts;
+    if (limit !== undefined && plugin.consecutiveTimeouts >= limit) {
+      this.handlePluginFailure(
+        plugin,
+        "tool-timeouts",
+        `${plugin.consecutiveTimeouts} consecutive tool calls timed out`
+      );
+    }
+  }
+
+  async readResourceInPlugin(
+    pluginName: string,
+    uri: string
+  ): Promise<ReadResourceResult> {
+    const plugin = this.getPlugin(pluginName);
+
+    try {
+      return await this.withRunningPlugin(plugin, (client) =>
+        client.readResource({ uri })
+      );
+    } catch (error) {
+      console.error(
+        `Error reading resource ${uri} from plugin ${pluginName}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  async getPromptInPlugin(
+    pluginName: string,
+    promptName: string,
+    args: Record<string, string>
+  ): Promise<GetPromptResult> {
+    const plugin = this.getPlugin(pluginName);
+
+    try {
+      return await this.withRunningPlugin(plugin, (client) =>
+        client.getPrompt({ name: promptName, arguments: args })
+      );
+    } catch (error) {
+      console.error(
+        `Error getting prompt ${promptName} from plugin ${pluginName}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  private getPlugin(pluginName: string): PluginProcess {
     const plugin = this.plugins.get(pluginName);
     if (!plugin) {
       throw new Error(`Plugin ${pluginName} not found`);
     }
 
+    return plugin;
+  }
+
+  // Runs `operation` against the plugin's client, first starting the plugin
+  // if it is idle. The plugin is not stopped for idleness while it runs.
+  private async withRunningPlugin<T>(
+    plugin: PluginProcess,
+    operation: (client: Client) => Promise<T>
+  ): Promise<T> {
+    const client = await this.ensureRunning(plugin);
+
+    plugin.activeCalls++;
+    this.clearIdleTimer(plugin);
+    try {
+      return await operation(client);
+    } finally {
+      plugin.activeCalls--;
+      plugin.lastUsed = new Date();
+      if (plugin.status === "running") {
+        this.scheduleIdleShutdown(plugin);
+      }
+    }
+  }
+
+  // Starts an idle plugin, after an idle shutdown under way has finished.
+  // Calls arriving during the startup wait for the same one.
+  private async ensureRunning(plugin: PluginProcess): Promise<Client> {
+    const name = plugin.config.name;
+    let waited = false;
+
+    while (plugin.status !== "running") {
+      if (plugin.transition) {
+        await plugin.transition;
+      } else if (plugin.status === "idle") {
+        console.log(`Starting plugin ${name} on demand`);
+        plugin.transition = this.startIdlePlugin(plugin);
+      } else {
+        break;
+      }
+      waited = true;
+    }
+
     if (plugin.status !== "running" || !plugin.client) {
-      throw new Error(`Plugin ${pluginName} is not running`);
+      throw new Error(
+        waited && plugin.lastFailure
+          ? `Plugin ${name} failed to start: ${plugin.lastFailure.message}`
+          : `Plugin ${name} is not running`
+      );
     }
 
-    try {
-      return await plugin.client.callTool({
-        name: toolName,
-        arguments: args,
+    return plugin.client;
+  }
+
+  private startIdlePlugin(plugin: PluginProcess): Promise<void> {
+    return this.spawnPluginProcess(plugin)
+      .catch((error) => {
+        // Failures before the process was spawned, such as an invalid
+        // memory limit; anything later is handled by handlePluginFailure
+        plugin.status = "failed";
+        plugin.lastFailure = {
+          reason: "startup-failed",
+          message: error instanceof Error ? error.message : String(error),
+          at: new Date(),
+        };
+      })
+      .finally(() => {
+        plugin.transition = null;
       });
+  }
+
+  // Running, or lazy and started by the next call
+  private isAvailable(plugin: PluginProcess | undefined): boolean {
+    return (
+      plugin?.status === "running" ||
+      plugin?.status === "idle" ||
+      Boolean(plugin?.transition)
+    );
+  }
+
+  isPluginAvailable(name: string): boolean {
+    return this.isAvailable(this.plugins.get(name));
+  }
+
+  // Starting, or waiting to be restarted after a failure
+  isPluginRestarting(name: string): boolean {
+    const status = this.plugins.get(name)?.status;
+    return status === "starting" || status === "backoff";
+  }
+
+  getPluginConfig(name: string): PluginProcessConfig | undefined {
+    return this.plugins.get(name)?.config;
+  }
+
+  getRunningPlugins(): PluginProcess[] {
+    return Array.from(this.plugins.values()).filter(
+      (plugin) => plugin.status === "running"
+    );
+  }
+
+  // Plugins whose capabilities can be advertised: running ones and lazy ones
+  // that are idle or being started by a call
+  getAvailablePlugins(): PluginProcess[] {
+    return Array.from(this.plugins.values()).filter((plugin) =>
+      this.isAvailable(plugin)
+    );
+  }
+
+  private async handlePluginToolCall(
+    caller: PluginProcessConfig,
+    params: {
+      plugin: string;
+      tool: string;
+      arguments?: Record<string, unknown> | undefined;
+      depth: number;
+    },
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    const depth = checkPluginCall(
+      caller.name,
+      caller.dependencies ?? [],
+      params.plugin,
+      params.depth
+    );
+
+    return await this.executeToolInPlugin(
+      params.plugin,
+      params.tool,
+      params.arguments ?? {},
+      { signal, depth }
+    );
+  }
+
+  private async handleContextRequest(
+    plugin: PluginProcess,
+    params: { call: PluginContextCall; args: string[] }
+  ): Promise<{ value?: unknown; error?: { name: string; message: string } }> {
+    try {
+      return { value: await this.callPluginContext(plugin, params) };
     } catch (error) {
-      console.error(
-        `Error executing tool ${toolName} in plugin ${pluginName}:`,
-        error
+      return {
+        error:
+          error instanceof Error
+            ? { name: error.name, message: error.message }
+            : { name: "Error", message: String(error) },
+      };
+    }
+  }
+
+  private async callPluginContext(
+    plugin: PluginProcess,
+    { call, args }: { call: PluginContextCall; args: string[] }
+  ): Promise<unknown> {
+    if (call === "getConfig") {
+      return plugin.config.config ?? {};
+    }
+
+    const context = plugin.context;
+    if (!context) {
+      throw new Error(
+        `Plugin ${plugin.config.name} cannot use credentials: no secure storage is configured`
       );
-      throw error;
+    }
+
+    const [key = "", value = ""] = args;
+    switch (call) {
+      case "getCredential":
+        return await context.getCredential(key);
+      case "setCredential":
+        return await context.setCredential(key, value);
+      case "getAccessToken":
+        return await context.getAccessToken();
+      case "isAuthenticated":
+        return await context.isAuthenticated();
+      case "getTokenInfo":
+        return await context.getTokenInfo();
+      case "requireReauth":
+        return await context.requireReauth();
+      case "getAuthHeaders":
+        return await context.getAuthHeaders();
     }
   }
 
@@ -404,10 +1290,21 @@ export class ProcessManager extends EventEmitter {
         status: plugin.status,
         restartCount: plugin.restartCount,
         lastRestart: plugin.lastRestart,
+        recentFailureCount: plugin.recentFailures.length,
         toolCount: plugin.tools.length,
         resourceCount: plugin.resources.length,
+        resourceTemplateCount: plugin.resourceTemplates.length,
         promptCount: plugin.prompts.length,
         pid: plugin.process?.pid,
+        lazy: plugin.config.lazy ?? false,
+        lastUsed: plugin.lastUsed,
+        startedAt: plugin.startedAt,
+        rss: plugin.usage?.rss ?? null,
+        maxMemory: plugin.config.maxMemory,
+        cpuTime: plugin.usage?.cpuTime ?? null,
+        cpuPercent: plugin.usage?.cpuPercent ?? null,
+        health: plugin.health,
+        lastFailure: plugin.lastFailure,
       };
     }
 
@@ -422,16 +1319,132 @@ export class ProcessManager extends EventEmitter {
     }, this.healthCheckInterval);
   }
 
+  // Checks all running plugins at once, so one that hangs until its timeout
+  // does not delay the others
   private async performHealthChecks(): Promise<void> {
-    for (const [name, plugin] of this.plugins) {
-      if (plugin.status === "running" && plugin.client) {
-        try {
-          // Simple ping to check if plugin is responsive
-          await plugin.client.listTools();
-        } catch (error) {
-          console.warn(`Health check failed for plugin ${name}:`, error);
-          this.handlePluginFailure(plugin);
-        }
+    // Skip a round while checks of the previous one are still waiting
+    if (this.healthChecksRunning) return;
+    this.healthChecksRunning = true;
+
+    try {
+      await Promise.all(
+        Array.from(this.plugins.values())
+          .filter((plugin) => plugin.status === "running")
+          .map((plugin) => this.checkPluginHealth(plugin))
+      );
+    } finally {
+      this.healthChecksRunning = false;
+    }
+  }
+
+  // Pings the plugin, then asks for its own healthCheck(). The plugin is
+  // replaced after `unhealthyThreshold` consecutive failures.
+  private async checkPluginHealth(plugin: PluginProcess): Promise<void> {
+    const { client, process: child } = plugin;
+    if (!client) return;
+
+    const name = plugin.config.name;
+    const timeout = plugin.config.healthCheckTimeout ?? this.healthCheckTimeout;
+    let failure: string | null = null;
+
+    try {
+      await client.ping({ timeout });
+      const report = await client.request(
+        { method: PLUGIN_HEALTH_CHECK_METHOD },
+        PluginHealthCheckResultSchema,
+        { timeout }
+      );
+      if (!report.healthy) {
+        failure = report.message ?? "plugin reported itself unhealthy";
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    // The process was stopped or replaced while the check was running
+    if (plugin.process !== child || plugin.status !== "running") return;
+
+    const health = plugin.health;
+    health.lastCheck = new Date();
+
+    if (failure === null) {
+      if (health.state === "degraded") {
+        console.log(`Plugin ${name} is healthy again`);
+      }
+      health.state = "healthy";
+      health.consecutiveFailures = 0;
+      health.message = null;
+      return;
+    }
+
+    health.consecutiveFailures++;
+    health.message = failure;
+
+    if (health.consecutiveFailures < this.unhealthyThreshold) {
+      health.state = "degraded";
+      console.warn(
+        `Health check failed for plugin ${name} (${health.consecutiveFailures}/${this.unhealthyThreshold}): ${failure}`
+      );
+      return;
+    }
+
+    health.state = "unhealthy";
+    this.handlePluginFailure(
+      plugin,
+      "health-check-failed",
+      `${health.consecutiveFailures} consecutive health checks failed: ${failure}`
+    );
+  }
+
+  // Samples memory and CPU usage of every running plugin, restarting those
+  // over their limits
+  startResourceMonitoring(): void {
+    if (this.resourceCheckTimer) return;
+
+    this.resourceCheckTimer = setInterval(() => {
+      this.checkResourceUsage();
+    }, this.resourceCheckInterval);
+  }
+
+  private async checkResourceUsage(): Promise<void> {
+    for (const plugin of this.plugins.values()) {
+      const child = plugin.process;
+      if (plugin.status !== "running" || !child?.pid) continue;
+
+      const usage = await readProcessUsage(child.pid);
+      if (!usage || plugin.process !== child) continue;
+
+      const now = new Date();
+      const previous = plugin.usage ?? {
+        cpuTime: 0,
+        sampledAt: plugin.startedAt ?? now,
+      };
+      const elapsed = now.getTime() - previous.sampledAt.getTime();
+      plugin.usage = {
+        ...usage,
+        cpuPercent:
+          elapsed > 0
+            ? ((usage.cpuTime - previous.cpuTime) / elapsed) * 100
+            : 0,
+        sampledAt: now,
+      };
+
+      const { maxMemory, maxCpuTime } = plugin.config;
+      if (maxMemory && usage.rss > parseMemoryLimit(maxMemory)) {
+        this.handlePluginFailure(
+          plugin,
+          "memory-limit",
+          `RSS of ${formatMegabytes(usage.rss)} exceeds the limit of ${maxMemory}`
+        );
+      } else if (
+        maxCpuTime !== undefined &&
+        usage.cpuTime > maxCpuTime * 1000
+      ) {
+        this.handlePluginFailure(
+          plugin,
+          "cpu-limit",
+          `used ${(usage.cpuTime / 1000).toFixed(1)}s of CPU time, more than the limit of ${maxCpuTime}s`
+        );
       }
     }
   }
@@ -444,13 +1457,26 @@ export class ProcessManager extends EventEmitter {
       this.healthCheckTimer = null;
     }
 
-    const shutdownPromises = Array.from(this.plugins.keys()).map((name) =>
-      this.stopPlugin(name).catch((err) =>
-        console.error(`Error stopping plugin ${name}:`, err)
-      )
+    if (this.resourceCheckTimer) {
+      clearInterval(this.resourceCheckTimer);
+      this.resourceCheckTimer = null;
+    }
+
+    // Reverse dependency order: dependents stop before their dependencies
+    const { order } = resolveDependencyOrder(
+      Array.from(this.plugins.values(), ({ config }) => ({
+        name: config.name,
+        dependencies: (config.dependencies ?? []).filter((dependency) =>
+          this.plugins.has(dependency)
+        ),
+      }))
     );
 
-    await Promise.all(shutdownPromises);
+    for (const name of order.reverse()) {
+      await this.stopPlugin(name).catch((err) =>
+        console.error(`Error stopping plugin ${name}:`, err)
+      );
+    }
     this.plugins.clear();
   }
 }
@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+// Structurally compatible with both our PromptArgument and the SDK's
+interface PromptArgumentSpec {
+  name: string;
+  description?: string | undefined;
+  required?: boolean | undefined;
+}
+
+// Zod shape for McpServer.prompt(); MCP prompt arguments are always strings
+export function promptArgumentsShape(
+  promptArguments: PromptArgumentSpec[] = []
+): Record<string, z.ZodTypeAny> {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const argument of promptArguments) {
+    const schema = argument.description
+      ? z.string().describe(argument.description)
+      : z.string();
+    shape[argument.name] = argument.required ? schema : schema.optional();
+  }
+  return shape;
+}
+
+export function missingPromptArguments(
+  promptArguments: PromptArgumentSpec[] = [],
+  args: Record<string, string>
+): string[] {
+  return promptArguments
+    .filter((argument) => argument.required && args[argument.name] == null)
+    .map((argument) => argument.name);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FilePluginRegistry } from "./registry";
+
+const bundledPluginsDir = path.join(__dirname, "../../plugins");
+
+function createRegistry(pluginsDir: string): FilePluginRegistry {
+  // No config file: every plugin gets the default configuration
+  const configPath = path.join(os.tmpdir(), "missing-plugins-config.json");
+  return new FilePluginRegistry(configPath, pluginsDir);
+}
+
+describe("FilePluginRegistry", () => {
+  const bundledPlugins = fs
+    .readdirSync(bundledPluginsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name);
+
+  it.each(bundledPlugins)("loads the bundled plugin %s", async (name) => {
+    const registry = createRegistry(bundledPluginsDir);
+
+    const result = await registry.loadPlugin(name);
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+
+    // Process isolated plugins are only loaded once their process starts
+    const metadata = registry.getPluginMetadata(name);
+    expect(metadata?.name).toBe(name);
+    if (metadata?.isolation === "process") {
+      expect(
+        fs.existsSync(path.join(bundledPluginsDir, name, "index.ts"))
+      ).toBe(true);
+    }
+  });
+
+  it("rejects unknown isolation values", async () => {
+    const pluginsDir = fs.mkdtempSync(path.join(os.tmpdir(), "plugins-"));
+    try {
+      fs.mkdirSync(path.join(pluginsDir, "typo"));
+      fs.writeFileSync(
+        path.join(pluginsDir, "typo", "plugin.json"),
+        JSON.stringify({ name: "typo", version: "1.0.0", isolation: "proces" })
+      );
+
+      const result = await createRegistry(pluginsDir).loadPlugin("typo");
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/^Unknown isolation "proces"/);
+    } finally {
+      fs.rmSync(pluginsDir, { recursive: true, force: true });
+    }
+  });
+});
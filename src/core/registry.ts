@@ -12,6 +12,8 @@ export interface PluginRegistry {
   loadPlugin(pluginPath: string): Promise<PluginLoadResult>;
   unloadPlugin(pluginName: string): Promise<void>;
   getPlugin(name: string): MCPPlugin | null;
+  getPluginMetadata(name: string): PluginMetadata | null;
+  getPluginPath(name: string): string | null;
   listPlugins(): PluginStatus[];
   enablePlugin(name: string): Promise<void>;
   disablePlugin(name: string): Promise<void>;
@@ -20,7 +22,8 @@ export interface PluginRegistry {
 }
 
 interface LoadedPlugin {
-  plugin: MCPPlugin;
+  plugin: MCPPlugin | null; // null for process isolated plugins
+  path: string;
   config: PluginConfig;
   metadata: PluginMetadata;
   initialized: boolean;
@@ -75,9 +78,8 @@ export class FilePluginRegistry implements PluginRegistry {
           description: packageJson.description || "",
           author: packageJson.author,
           homepage: packageJson.homepage,
-          dependencies: packageJson.dependencies
-            ? Object.keys(packageJson.dependencies)
-            : [],
+          // npm dependencies are not plugins, so none can be declared here
+          dependencies: [],
         };
       } else {
         return {
@@ -86,6 +88,31 @@ export class FilePluginRegistry implements PluginRegistry {
         };
       }
 
+      if (
+        metadata.isolation !== undefined &&
+        metadata.isolation !== "in-process" &&
+        metadata.isolation !== "process"
+      ) {
+        return {
+          success: false,
+          error: `Unknown isolation "${metadata.isolation}": expected "in-process" or "process"`,
+        };
+      }
+
+      // Process isolated plugins are only loaded by their own process
+      if (metadata.isolation === "process") {
+        const config = await this.loadPluginConfig(metadata.name);
+        this.plugins.set(metadata.name, {
+          plugin: null,
+          path: fullPath,
+          config,
+          metadata,
+          initialized: false,
+          enabled: config.enabled,
+        });
+        return { success: true };
+      }
+
       // Try to load the plugin module
       const mainFile = path.join(fullPath, "index.js"); // Assume compiled JS
       if (!fs.existsSync(mainFile)) {
@@ -123,6 +150,7 @@ export class FilePluginRegistry implements PluginRegistry {
       // Store the loaded plugin
       this.plugins.set(metadata.name, {
         plugin,
+        path: fullPath,
         config,
         metadata,
         initialized: false,
@@ -159,7 +187,7 @@ export class FilePluginRegistry implements PluginRegistry {
       throw new Error(`Plugin ${pluginName} is not loaded`);
     }
 
-    if (loadedPlugin.initialized) {
+    if (loadedPlugin.plugin && loadedPlugin.initialized) {
       try {
         await loadedPlugin.plugin.cleanup();
       } catch (error) {
@@ -175,17 +203,32 @@ export class FilePluginRegistry implements PluginRegistry {
     return loadedPlugin?.plugin || null;
   }
 
+  getPluginMetadata(name: string): PluginMetadata | null {
+    const loadedPlugin = this.plugins.get(name);
+    return loadedPlugin?.metadata || null;
+  }
+
+  getPluginPath(name: string): string | null {
+    const loadedPlugin = this.plugins.get(name);
+    return loadedPlugin?.path || null;
+  }
+
   listPlugins(): PluginStatus[] {
     return Array.from(this.plugins.values()).map((loaded) => ({
       name: loaded.metadata.name,
       version: loaded.metadata.version,
+      isolation: loaded.metadata.isolation ?? "in-process",
       enabled: loaded.enabled,
       initialized: loaded.initialized,
       error: loaded.error,
-      toolCount: loaded.initialized ? loaded.plugin.getTools().length : 0,
-      resourceCount: loaded.initialized
-        ? loaded.plugin.getResources().length
-        : 0,
+      toolCount:
+        loaded.plugin && loaded.initialized
+          ? loaded.plugin.getTools().length
+          : 0,
+      resourceCount:
+        loaded.plugin && loaded.initialized
+          ? loaded.plugin.getResources().length
+          : 0,
     }));
   }
 
@@ -206,7 +249,7 @@ export class FilePluginRegistry implements PluginRegistry {
       throw new Error(`Plugin ${name} is not loaded`);
     }
 
-    if (loadedPlugin.initialized) {
+    if (loadedPlugin.plugin && loadedPlugin.initialized) {
       await loadedPlugin.plugin.cleanup();
       loadedPlugin.initialized = false;
     }
@@ -0,0 +1,43 @@
+import { ResourceContents } from "../types/plugin";
+
+// Resource contents in the shape MCP's resources/read expects
+export type ReadResourceContents =
+  | { uri: string; mimeType?: string; text: string }
+  | { uri: string; mimeType?: string; blob: string };
+
+export function normalizeResourceContents(
+  contents: ResourceContents | ResourceContents[],
+  uri: string,
+  mimeType?: string
+): ReadResourceContents[] {
+  return (Array.isArray(contents) ? contents : [contents]).map((item) => {
+    const itemMimeType = item.mimeType ?? mimeType;
+    const base = {
+      uri: item.uri ?? uri,
+      ...(itemMimeType ? { mimeType: itemMimeType } : {}),
+    };
+
+    if (item.blob !== undefined) {
+      return {
+        ...base,
+        blob:
+          typeof item.blob === "string"
+            ? item.blob
+            : Buffer.from(item.blob).toString("base64"),
+      };
+    }
+    return { ...base, text: item.text ?? "" };
+  });
+}
+
+// URI template variables can be lists; plugins receive them comma-joined
+export function flattenTemplateVariables(
+  variables: Record<string, string | string[]>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(variables).map(([name, value]) => [
+      name,
+      Array.isArray(value) ? value.join(",") : value,
+    ])
+  );
+}
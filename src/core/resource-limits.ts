@@ -0,0 +1,93 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export interface ProcessUsage {
+  rss: number; // Resident set size in bytes
+  cpuTime: number; // User + system CPU time in milliseconds
+}
+
+const MEMORY_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+};
+
+// Parses sizes such as "256MB" or "1.5GB" into bytes. A bare number is taken
+// to be megabytes.
+export function parseMemoryLimit(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([KMG]?B)?\s*$/i.exec(value);
+  if (!match) {
+    throw new Error(`Invalid memory limit "${value}"`);
+  }
+
+  const unit = MEMORY_UNITS[(match[2] ?? "MB").toUpperCase()]!;
+  return Math.floor(parseFloat(match[1]!) * unit);
+}
+
+export function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / MEMORY_UNITS.MB!)}MB`;
+}
+
+// Returns null once the process has exited
+export async function readProcessUsage(
+  pid: number
+): Promise<ProcessUsage | null> {
+  try {
+    return process.platform === "linux"
+      ? await readProcUsage(pid)
+      : await readPsUsage(pid);
+  } catch (error) {
+    return null;
+  }
+}
+
+// USER_HZ, which is 100 on every mainstream Linux architecture
+const CLOCK_TICKS_PER_SECOND = 100;
+
+async function readProcUsage(pid: number): Promise<ProcessUsage> {
+  const [status, stat] = await Promise.all([
+    fs.readFile(`/proc/${pid}/status`, "utf8"),
+    fs.readFile(`/proc/${pid}/stat`, "utf8"),
+  ]);
+
+  // The command name in parentheses may contain spaces, so fields are counted
+  // from the closing parenthesis: utime and stime are fields 14 and 15
+  const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+  const ticks = Number(fields[11]) + Number(fields[12]);
+  const rssKilobytes = /^VmRSS:\s+(\d+) kB/m.exec(status)?.[1] ?? "0";
+
+  return {
+    rss: Number(rssKilobytes) * 1024,
+    cpuTime: (ticks / CLOCK_TICKS_PER_SECOND) * 1000,
+  };
+}
+
+async function readPsUsage(pid: number): Promise<ProcessUsage | null> {
+  const { stdout } = await execFileAsync("ps", [
+    "-o",
+    "rss=,time=",
+    "-p",
+    String(pid),
+  ]);
+  const [rssKilobytes, time] = stdout.trim().split(/\s+/);
+  if (!rssKilobytes || !time) {
+    return null;
+  }
+
+  return { rss: Number(rssKilobytes) * 1024, cpuTime: parseCpuTime(time) };
+}
+
+// ps prints CPU time as [[dd-]hh:]mm:ss, with fractional seconds on macOS
+function parseCpuTime(time: string): number {
+  const [days, clock] = time.includes("-")
+    ? [Number(time.split("-")[0]), time.split("-")[1]!]
+    : [0, time];
+  const seconds = clock
+    .split(":")
+    .reduce((total, part) => total * 60 + parseFloat(part), 0);
+  return (days * 86400 + seconds) * 1000;
+}
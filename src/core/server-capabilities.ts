@@ -0,0 +1,15 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * McpServer only declares tool, resource and prompt support when the first one
+ * is registered, and capabilities cannot change once it is connected. Servers
+ * that register them after connecting declare all three up front by
+ * registering and immediately removing a placeholder of each kind.
+ */
+export function declareDynamicCapabilities(server: McpServer): void {
+  server.tool("placeholder", () => ({ content: [] })).remove();
+  server
+    .resource("placeholder", "placeholder://", async () => ({ contents: [] }))
+    .remove();
+  server.prompt("placeholder", () => ({ messages: [] })).remove();
+}
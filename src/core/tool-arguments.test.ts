@@ -0,0 +1,56 @@
+import { describe, expect, it } from "@jest/globals";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import {
+  InvalidToolArgumentsError,
+  compileToolArguments,
+  parseToolArguments,
+} from "./tool-arguments";
+
+describe("parseToolArguments", () => {
+  const validator = compileToolArguments({
+    type: "object",
+    properties: {
+      channel: { type: "string" },
+      limit: { type: "integer", minimum: 1, default: 20 },
+    },
+    required: ["channel"],
+    additionalProperties: false,
+  });
+
+  it("returns the arguments with defaults applied", () => {
+    expect(
+      parseToolArguments("slack", "history", validator, { channel: "C1" })
+    ).toEqual({ channel: "C1", limit: 20 });
+  });
+
+  it("treats missing arguments as an empty object", () => {
+    const optional = compileToolArguments(undefined);
+    expect(parseToolArguments("hello", "say", optional, undefined)).toEqual(
+      {}
+    );
+  });
+
+  it("reports every issue with its path", () => {
+    let error: unknown;
+    try {
+      parseToolArguments("slack", "history", validator, {
+        limit: 0,
+        extra: true,
+      });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(InvalidToolArgumentsError);
+    const invalid = error as InvalidToolArgumentsError;
+    expect(invalid.code).toBe(ErrorCode.InvalidParams);
+    expect(invalid.issues.map(({ path }) => path)).toEqual([
+      "channel",
+      "limit",
+      "",
+    ]);
+    expect(invalid.message).toMatch(
+      /^Invalid arguments for tool slack\.history: channel: /
+    );
+  });
+});
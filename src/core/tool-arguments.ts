@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { JsonSchema, jsonSchemaToZod } from "./json-schema-zod";
+
+export interface ToolArgumentIssue {
+  path: string; // Dotted path of the offending field, "" for the arguments
+  message: string;
+}
+
+export class InvalidToolArgumentsError extends Error {
+  readonly code = ErrorCode.InvalidParams;
+
+  constructor(
+    public readonly pluginName: string,
+    public readonly toolName: string,
+    public readonly issues: ToolArgumentIssue[]
+  ) {
+    super(
+      `Invalid arguments for tool ${pluginName}.${toolName}: ${issues
+        .map(({ path, message }) => (path ? `${path}: ${message}` : message))
+        .join("; ")}`
+    );
+    this.name = "InvalidToolArgumentsError";
+  }
+}
+
+// Validator for a tool's arguments. Unlike the raw shapes registered with
+// McpServer, the arguments object itself follows `additionalProperties`.
+export function compileToolArguments(
+  inputSchema: JsonSchema | undefined
+): z.ZodTypeAny {
+  return jsonSchemaToZod({ type: "object", ...inputSchema });
+}
+
+// Returns the arguments with schema defaults applied
+export function parseToolArguments(
+  pluginName: string,
+  toolName: string,
+  validator: z.ZodTypeAny,
+  args: unknown
+): Record<string, unknown> {
+  const result = validator.safeParse(args ?? {});
+  if (!result.success) {
+    throw new InvalidToolArgumentsError(
+      pluginName,
+      toolName,
+      result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      }))
+    );
+  }
+
+  return result.data;
+}
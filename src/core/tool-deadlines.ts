@@ -0,0 +1,80 @@
+// Deadline for a tool call when the plugin does not configure one
+export const DEFAULT_TOOL_TIMEOUT = 30000;
+
+export class ToolTimeoutError extends Error {
+  constructor(
+    public readonly pluginName: string,
+    public readonly toolName: string,
+    public readonly timeout: number
+  ) {
+    super(`Tool ${pluginName}.${toolName} timed out after ${timeout}ms`);
+    this.name = "ToolTimeoutError";
+  }
+}
+
+// The call timeouts of plugin.json's "process" section
+export interface ToolTimeoutSettings {
+  timeout?: number;
+  toolTimeouts?: Record<string, number>;
+}
+
+export function resolveToolTimeout(
+  settings: ToolTimeoutSettings | undefined,
+  toolName: string
+): number {
+  return (
+    settings?.toolTimeouts?.[toolName] ??
+    settings?.timeout ??
+    DEFAULT_TOOL_TIMEOUT
+  );
+}
+
+/**
+ * Runs `call` with a signal that aborts when the deadline passes or when
+ * `signal` aborts. The returned promise settles as soon as either happens,
+ * rejecting with a ToolTimeoutError or the caller's abort reason; it does not
+ * wait for a plugin that ignores the signal.
+ */
+export function withToolDeadline<T>(
+  pluginName: string,
+  toolName: string,
+  timeout: number,
+  call: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    const timer = setTimeout(
+      () =>
+        controller.abort(new ToolTimeoutError(pluginName, toolName, timeout)),
+      timeout
+    );
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", forwardAbort);
+    };
+
+    controller.signal.addEventListener("abort", () => {
+      cleanup();
+      reject(controller.signal.reason);
+    });
+
+    if (signal?.aborted) {
+      forwardAbort();
+      return;
+    }
+    signal?.addEventListener("abort", forwardAbort, { once: true });
+
+    call(controller.signal).then(
+      (result) => {
+        cleanup();
+        resolve(result);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,26 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+// Plugins may return a CallToolResult or any other value, which is sent as
+// JSON text
+export function toCallToolResult(result: any): CallToolResult {
+  if (result && Array.isArray(result.content)) {
+    return result;
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text:
+          typeof result === "string" ? result : JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
+
+// The text of a result, as the message of the error it reports
+export function toolResultText(result: CallToolResult): string {
+  return result.content
+    .map((item) => (item.type === "text" ? item.text : ""))
+    .join("\n");
+}
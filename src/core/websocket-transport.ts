@@ -0,0 +1,171 @@
+import { randomUUID } from "crypto";
+import WebSocket from "ws";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  JSONRPCError,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  RequestId,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Responses owed for a JSON-RPC batch, sent together once all have arrived
+interface PendingBatch {
+  requestIds: Set<RequestId>;
+  responses: JSONRPCMessage[];
+}
+
+/**
+ * MCP server transport over an accepted WebSocket, carrying one JSON-RPC
+ * message or batch per WebSocket message. Malformed input is answered with
+ * the JSON-RPC parse and invalid request errors, since it never reaches the
+ * MCP server.
+ */
+export class WebSocketServerTransport implements Transport {
+  private batches: PendingBatch[] = [];
+  private closed = false;
+
+  readonly sessionId = randomUUID();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(private socket: WebSocket) {}
+
+  async start(): Promise<void> {
+    this.socket.on("message", this.handleMessage);
+    this.socket.on("error", this.handleError);
+    this.socket.on("close", this.handleClose);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error("Not connected");
+    }
+
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      const batch = this.batches.find(({ requestIds }) =>
+        requestIds.has(message.id)
+      );
+      if (batch) {
+        batch.requestIds.delete(message.id);
+        batch.responses.push(message);
+        if (batch.requestIds.size > 0) {
+          return;
+        }
+        this.batches.splice(this.batches.indexOf(batch), 1);
+        await this.write(batch.responses);
+        return;
+      }
+    }
+
+    await this.write(message);
+  }
+
+  async close(): Promise<void> {
+    this.socket.close();
+    this.handleClose();
+  }
+
+  private handleMessage = (data: WebSocket.RawData): void => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data.toString());
+    } catch (error) {
+      this.reply(errorResponse(null, ErrorCode.ParseError, "Parse error"));
+      return;
+    }
+
+    if (!Array.isArray(payload)) {
+      const result = JSONRPCMessageSchema.safeParse(payload);
+      if (result.success) {
+        this.onmessage?.(result.data);
+      } else {
+        this.reply(invalidRequest(payload));
+      }
+      return;
+    }
+
+    if (payload.length === 0) {
+      this.reply(errorResponse(null, ErrorCode.InvalidRequest, "Empty batch"));
+      return;
+    }
+
+    const batch: PendingBatch = { requestIds: new Set(), responses: [] };
+    const messages: JSONRPCMessage[] = [];
+    for (const item of payload) {
+      const result = JSONRPCMessageSchema.safeParse(item);
+      if (!result.success) {
+        batch.responses.push(invalidRequest(item));
+        continue;
+      }
+      messages.push(result.data);
+      if (isJSONRPCRequest(result.data)) {
+        batch.requestIds.add(result.data.id);
+      }
+    }
+
+    // A batch of notifications gets no response at all
+    if (batch.requestIds.size > 0) {
+      this.batches.push(batch);
+    } else if (batch.responses.length > 0) {
+      this.reply(batch.responses);
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  };
+
+  private reply(payload: JSONRPCMessage | JSONRPCMessage[]): void {
+    this.write(payload).catch((error) => this.onerror?.(error));
+  }
+
+  private write(payload: JSONRPCMessage | JSONRPCMessage[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.send(JSON.stringify(payload), (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+
+  private handleError = (error: Error): void => {
+    this.onerror?.(error);
+  };
+
+  private handleClose = (): void => {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    this.socket.off("message", this.handleMessage);
+    this.socket.off("error", this.handleError);
+    this.socket.off("close", this.handleClose);
+    this.batches = [];
+
+    this.onclose?.();
+  };
+}
+
+function invalidRequest(payload: unknown): JSONRPCError {
+  const id = (payload as { id?: unknown } | null)?.id;
+  return errorResponse(
+    typeof id === "string" || typeof id === "number" ? id : null,
+    ErrorCode.InvalidRequest,
+    "Invalid Request"
+  );
+}
+
+// JSON-RPC requires `id: null` when the request's ID could not be read
+function errorResponse(
+  id: RequestId | null,
+  code: number,
+  message: string
+): JSONRPCError {
+  return { jsonrpc: "2.0", id: id as RequestId, error: { code, message } };
+}
@@ -4,29 +4,77 @@ import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import * as dotenv from "dotenv";
 import { WebSocketServer } from "ws";
-import { createServer } from "http";
+import { IncomingMessage, createServer } from "http";
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
 import { FilePluginRegistry } from "./core/registry";
-import { DefaultPluginManager } from "./core/plugin-manager";
+import { PluginHost } from "./core/plugin-host";
+import { ToolTimeoutError } from "./core/tool-deadlines";
+import { InvalidToolArgumentsError } from "./core/tool-arguments";
+import { createPluginMcpServer } from "./core/plugin-mcp-server";
+import { WebSocketServerTransport } from "./core/websocket-transport";
+import { McpHttpEndpoint } from "./core/mcp-http";
 import { FileSecureStorage } from "./core/auth/secure-storage";
+import {
+  createSecureStorage,
+  secureStorageOptionsFromEnv,
+} from "./core/auth/storage-factory";
+import { DefaultAuthManager } from "./core/auth/auth-manager";
+import {
+  AuditedSecureStorage,
+  FileCredentialAuditLog,
+} from "./core/auth/audit-log";
+import {
+  DefaultOAuthManager,
+  ReauthRequiredError,
+  createPluginOAuthConfigResolver,
+} from "./core/auth/oauth-manager";
 
 // Load environment variables
 dotenv.config();
 
+// With --stdio the server also serves an MCP session on stdin/stdout, for
+// clients that spawn it. Logs then go to stderr so they cannot corrupt it.
+const STDIO = process.argv.includes("--stdio");
+if (STDIO) {
+  console.log = console.info = console.debug = console.error;
+}
+
 const app = express();
 const server = createServer(app);
 const PORT = process.env.PORT || 3000;
+
+// Without a persistent key every stored credential becomes unreadable after a
+// restart, so a throwaway key must be requested explicitly
+if (
+  !process.env.MASTER_KEY &&
+  process.env.ALLOW_EPHEMERAL_MASTER_KEY !== "true"
+) {
+  console.error(
+    "MASTER_KEY is not set. Set MASTER_KEY to a 64 character hex key, or set ALLOW_EPHEMERAL_MASTER_KEY=true to use a throwaway key (credentials will be lost on restart)."
+  );
+  process.exit(1);
+}
+
 const MASTER_KEY =
   process.env.MASTER_KEY || FileSecureStorage.generateMasterKey();
+const OAUTH_REDIRECT_URI =
+  process.env.OAUTH_REDIRECT_URI ||
+  `http://localhost:${PORT}/api/auth/oauth/callback`;
 
 // Security middleware
 app.use(helmet());
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS?.split(",") || [
+  "http://localhost:3000",
+];
 app.use(
   cors({
-    origin: process.env.ALLOWED_ORIGINS?.split(",") || [
-      "http://localhost:3000",
-    ],
+    origin: ALLOWED_ORIGINS,
     credentials: true,
+    // Streamable HTTP clients read their session ID from this header
+    exposedHeaders: ["Mcp-Session-Id"],
   })
 );
 
@@ -38,14 +86,62 @@ const limiter = rateLimit({
 });
 app.use("/api/", limiter);
 
+// MCP clients send a request per message, so they get a budget of their own
+const mcpLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: parseInt(process.env.MCP_RATE_LIMIT_MAX_REQUESTS || "1000", 10),
+  message: "Too many requests from this IP, please try again later.",
+});
+app.use(["/mcp", "/sse", "/messages"], mcpLimiter);
+
 // Body parsing middleware
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true }));
 
 // Initialize core components
-const secureStorage = new FileSecureStorage(MASTER_KEY);
+const credentialAuditLog = new FileCredentialAuditLog(
+  process.env.CREDENTIAL_AUDIT_LOG
+);
+const secureStorage = new AuditedSecureStorage(
+  createSecureStorage(secureStorageOptionsFromEnv(MASTER_KEY)),
+  credentialAuditLog
+);
+// Credential changes made through the admin API
+const adminStorage = secureStorage.withActor("admin");
 const pluginRegistry = new FilePluginRegistry();
-const pluginManager = new DefaultPluginManager(pluginRegistry, secureStorage);
+const oauthManager = new DefaultOAuthManager(
+  secureStorage,
+  createPluginOAuthConfigResolver(
+    (pluginId) => pluginRegistry.getPluginMetadata(pluginId)?.auth,
+    secureStorage,
+    OAUTH_REDIRECT_URI
+  ),
+  {
+    ...(process.env.OAUTH_REFRESH_SKEW_MS
+      ? { refreshSkew: parseInt(process.env.OAUTH_REFRESH_SKEW_MS, 10) }
+      : {}),
+    ...(process.env.OAUTH_REQUEST_TIMEOUT_MS
+      ? {
+          requestTimeout: parseInt(process.env.OAUTH_REQUEST_TIMEOUT_MS, 10),
+        }
+      : {}),
+  }
+);
+const authManager = new DefaultAuthManager(pluginRegistry);
+// Plugins run in-process or in a process of their own, as their plugin.json
+// asks; the options below only apply to the latter
+const pluginManager = new PluginHost(
+  pluginRegistry,
+  secureStorage,
+  oauthManager,
+  authManager,
+  {
+    lazy: process.env.PLUGIN_STARTUP === "lazy",
+    ...(process.env.PLUGIN_IDLE_TIMEOUT
+      ? { idleTimeout: parseInt(process.env.PLUGIN_IDLE_TIMEOUT, 10) }
+      : {}),
+  }
+);
 
 // Basic authentication middleware (for admin endpoints)
 const basicAuth = (
@@ -79,7 +175,7 @@ app.get("/health", (req, res) => {
 // Plugin management endpoints
 app.get("/api/plugins", basicAuth, async (req, res) => {
   try {
-    const plugins = pluginRegistry.listPlugins();
+    const plugins = pluginManager.listPlugins();
     res.json({ plugins });
   } catch (error) {
     res.status(500).json({
@@ -125,6 +221,23 @@ app.post("/api/plugins/:id/disable", basicAuth, async (req, res) => {
   }
 });
 
+app.post("/api/plugins/:id/restart", basicAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      res.status(400).json({ error: "Plugin ID is required" });
+      return;
+    }
+    await pluginManager.restartPlugin(id);
+    res.json({ message: `Plugin ${id} restarted successfully` });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to restart plugin",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 app.put("/api/plugins/:id/config", basicAuth, async (req, res) => {
   try {
     const { id } = req.params;
@@ -164,7 +277,7 @@ app.delete("/api/plugins/:id", basicAuth, async (req, res) => {
 // Credential management endpoints
 app.post("/api/auth/credentials", basicAuth, async (req, res) => {
   try {
-    const { pluginId, credentialId, value } = req.body;
+    const { pluginId, credentialId, value, expiresAt, labels } = req.body;
 
     if (!pluginId || !credentialId || !value) {
       res
@@ -173,7 +286,29 @@ app.post("/api/auth/credentials", basicAuth, async (req, res) => {
       return;
     }
 
-    await secureStorage.storeCredential(pluginId, credentialId, value);
+    const expiry = expiresAt !== undefined ? new Date(expiresAt) : undefined;
+    if (expiry && isNaN(expiry.getTime())) {
+      res.status(400).json({ error: "expiresAt must be an ISO 8601 date" });
+      return;
+    }
+
+    if (
+      labels !== undefined &&
+      (typeof labels !== "object" ||
+        labels === null ||
+        Array.isArray(labels) ||
+        Object.values(labels).some((label) => typeof label !== "string"))
+    ) {
+      res
+        .status(400)
+        .json({ error: "labels must be an object of string values" });
+      return;
+    }
+
+    await adminStorage.storeCredential(pluginId, credentialId, value, {
+      ...(expiry ? { expiresAt: expiry } : {}),
+      ...(labels ? { labels } : {}),
+    });
     res.json({ message: "Credential stored successfully" });
   } catch (error) {
     res.status(500).json({
@@ -190,7 +325,8 @@ app.get("/api/auth/credentials/:pluginId", basicAuth, async (req, res) => {
       res.status(400).json({ error: "Plugin ID is required" });
       return;
     }
-    const credentials = await secureStorage.listCredentials(pluginId);
+    // Metadata only; values are never returned by the API
+    const credentials = await secureStorage.describeCredentials(pluginId);
     res.json({ credentials });
   } catch (error) {
     res.status(500).json({
@@ -212,7 +348,7 @@ app.delete(
           .json({ error: "Plugin ID and credential ID are required" });
         return;
       }
-      await secureStorage.deleteCredential(pluginId, credentialId);
+      await adminStorage.deleteCredential(pluginId, credentialId);
       res.json({ message: "Credential deleted successfully" });
     } catch (error) {
       res.status(500).json({
@@ -223,6 +359,125 @@ app.delete(
   }
 );
 
+app.get("/api/auth/audit", basicAuth, async (req, res) => {
+  try {
+    const { pluginId, actor, limit } = req.query;
+    const entries = await credentialAuditLog.query({
+      ...(typeof pluginId === "string" ? { pluginId } : {}),
+      ...(typeof actor === "string" ? { actor } : {}),
+      limit: typeof limit === "string" ? parseInt(limit, 10) || 100 : 100,
+    });
+    res.json({ entries });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to read audit log",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+app.post("/api/auth/master-key/rotate", basicAuth, async (req, res) => {
+  try {
+    // The caller supplies the key, so it is already kept wherever MASTER_KEY
+    // comes from and is not lost when the server restarts
+    const { newKey } = req.body || {};
+    if (typeof newKey !== "string" || !/^[0-9a-fA-F]{64}$/.test(newKey)) {
+      res
+        .status(400)
+        .json({ error: "newKey must be a 64 character hex string" });
+      return;
+    }
+
+    const result = await secureStorage.rotateMasterKey(newKey);
+
+    res.json({
+      message: `Re-encrypted ${result.credentialCount} credentials for ${result.pluginCount} plugins`,
+      keyVersion: result.keyVersion,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to rotate master key",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// OAuth endpoints
+app.post("/api/auth/oauth/:pluginId/authorize", basicAuth, async (req, res) => {
+  try {
+    const { pluginId } = req.params;
+    if (!pluginId) {
+      res.status(400).json({ error: "Plugin ID is required" });
+      return;
+    }
+
+    const config = await oauthManager.getConfig(pluginId);
+    if (!config) {
+      res
+        .status(400)
+        .json({ error: `Plugin ${pluginId} is not configured for OAuth` });
+      return;
+    }
+
+    const { authUrl, state } = await oauthManager.initiateFlow(
+      pluginId,
+      config
+    );
+    res.json({ authUrl, state });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to start OAuth flow",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Called by the OAuth provider's redirect; the state parameter authenticates it
+app.get("/api/auth/oauth/callback", async (req, res) => {
+  const { code, state, error: oauthError, error_description } = req.query;
+
+  if (typeof oauthError === "string") {
+    res.status(400).json({
+      error: "Authorization was denied",
+      details:
+        typeof error_description === "string" ? error_description : oauthError,
+    });
+    return;
+  }
+
+  if (typeof code !== "string" || typeof state !== "string") {
+    res.status(400).json({ error: "code and state are required" });
+    return;
+  }
+
+  try {
+    await oauthManager.handleCallback(code, state);
+    res.json({ message: "Plugin connected successfully" });
+  } catch (error) {
+    res.status(400).json({
+      error: "Failed to complete OAuth flow",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+app.delete("/api/auth/oauth/:pluginId", basicAuth, async (req, res) => {
+  try {
+    const { pluginId } = req.params;
+    if (!pluginId) {
+      res.status(400).json({ error: "Plugin ID is required" });
+      return;
+    }
+    await oauthManager.revokeToken(pluginId);
+    res.json({ message: `OAuth token for plugin ${pluginId} revoked` });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to revoke OAuth token",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 // MCP protocol endpoints
 app.get("/api/mcp/tools", (req, res) => {
   try {
@@ -248,6 +503,36 @@ app.get("/api/mcp/resources", (req, res) => {
   }
 });
 
+app.get("/api/mcp/resources/templates", (req, res) => {
+  try {
+    const resourceTemplates = pluginManager.getAvailableResourceTemplates();
+    res.json({ resourceTemplates });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to get resource templates",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+app.get("/api/mcp/resources/read", async (req, res) => {
+  try {
+    const { uri } = req.query;
+    if (typeof uri !== "string" || !uri) {
+      res.status(400).json({ error: "uri query parameter is required" });
+      return;
+    }
+
+    const contents = await pluginManager.readResource(uri);
+    res.json({ contents });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to read resource",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 app.post("/api/mcp/tools/execute", async (req, res) => {
   try {
     const { toolName, args } = req.body;
@@ -266,13 +551,49 @@ app.post("/api/mcp/tools/execute", async (req, res) => {
       return;
     }
 
+    // Stop the call when the client goes away before it completes
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+
     const result = await pluginManager.executeTool(
       pluginName,
       actualToolName,
-      args || {}
+      args || {},
+      controller.signal
     );
     res.json({ result });
   } catch (error) {
+    if (error instanceof InvalidToolArgumentsError) {
+      res.status(400).json({
+        error: "Invalid tool arguments",
+        code: error.code,
+        details: error.message,
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof ToolTimeoutError) {
+      res.status(504).json({
+        error: "Tool call timed out",
+        details: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof ReauthRequiredError) {
+      res.status(401).json({
+        error: "Re-authentication required",
+        pluginId: error.pluginId,
+        details: error.message,
+      });
+      return;
+    }
+
     res.status(500).json({
       error: "Failed to execute tool",
       details: error instanceof Error ? error.message : String(error),
@@ -281,95 +602,81 @@ app.post("/api/mcp/tools/execute", async (req, res) => {
 });
 
 // WebSocket server for MCP protocol
-const wss = new WebSocketServer({ server, path: "/mcp" });
+// Hosts MCP clients may address the server by, if set. Requests naming any
+// other host are refused, so browser pages cannot reach local tools through
+// DNS rebinding.
+const MCP_ALLOWED_HOSTS = process.env.MCP_ALLOWED_HOSTS?.split(",");
+
+const wss = new WebSocketServer({
+  server,
+  path: "/mcp",
+  verifyClient: ({ origin, req }: { origin: string; req: IncomingMessage }) =>
+    (!MCP_ALLOWED_HOSTS ||
+      MCP_ALLOWED_HOSTS.includes(req.headers.host ?? "")) &&
+    (!origin || ALLOWED_ORIGINS.includes(origin)),
+});
 
-wss.on("connection", (ws) => {
-  console.log("New MCP WebSocket connection established");
+// Connected MCP sessions, notified when the set of plugins changes
+const mcpSessions = new Set<Server>();
 
-  ws.on("message", async (data) => {
-    try {
-      const message = JSON.parse(data.toString());
-
-      // Basic MCP message handling
-      switch (message.method) {
-        case "tools/list":
-          const tools = pluginManager.getAvailableTools();
-          ws.send(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              id: message.id,
-              result: { tools },
-            })
-          );
-          break;
-
-        case "tools/call":
-          const { name, arguments: args } = message.params;
-          const [pluginName, toolName] = name.split(".");
-          const result = await pluginManager.executeTool(
-            pluginName,
-            toolName,
-            args
-          );
-          ws.send(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              id: message.id,
-              result: {
-                content: [
-                  { type: "text", text: JSON.stringify(result, null, 2) },
-                ],
-              },
-            })
-          );
-          break;
-
-        case "resources/list":
-          const resources = pluginManager.getAvailableResources();
-          ws.send(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              id: message.id,
-              result: { resources },
-            })
-          );
-          break;
-
-        default:
-          ws.send(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              id: message.id,
-              error: {
-                code: -32601,
-                message: `Method ${message.method} not found`,
-              },
-            })
-          );
-      }
-    } catch (error) {
-      ws.send(
-        JSON.stringify({
-          jsonrpc: "2.0",
-          id: null,
-          error: {
-            code: -32603,
-            message: "Internal error",
-            data: error instanceof Error ? error.message : String(error),
-          },
-        })
-      );
-    }
+pluginManager.on("capabilitiesChanged", notifyCapabilitiesChanged);
+
+function notifyCapabilitiesChanged(): void {
+  for (const session of mcpSessions) {
+    Promise.all([
+      session.sendToolListChanged(),
+      session.sendResourceListChanged(),
+      session.sendPromptListChanged(),
+    ]).catch((error) =>
+      console.error("Failed to notify MCP session of changes:", error)
+    );
+  }
+}
+
+function createMcpSession(): Server {
+  return createPluginMcpServer(pluginManager, {
+    name: "MCP Plugin Server",
+    version: "1.0.0",
   });
+}
+
+wss.on("connection", async (ws) => {
+  console.log("New MCP WebSocket connection established");
 
+  const transport = new WebSocketServerTransport(ws);
+  const session = createMcpSession();
+
+  session.onerror = (error) => {
+    console.error("MCP WebSocket error:", error);
+  };
   ws.on("close", () => {
     console.log("MCP WebSocket connection closed");
+    mcpSessions.delete(session);
   });
 
-  ws.on("error", (error) => {
-    console.error("MCP WebSocket error:", error);
-  });
+  try {
+    await session.connect(transport);
+    mcpSessions.add(session);
+  } catch (error) {
+    console.error("Failed to start MCP session:", error);
+    ws.close();
+  }
+});
+
+// MCP over Streamable HTTP (/mcp) and HTTP+SSE (/sse, /messages)
+const mcpHttp = new McpHttpEndpoint({
+  createServer: createMcpSession,
+  ...(process.env.MCP_SESSION_IDLE_TIMEOUT
+    ? {
+        sessionIdleTimeout: parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT, 10),
+      }
+    : {}),
+  ...(MCP_ALLOWED_HOSTS ? { allowedHosts: MCP_ALLOWED_HOSTS } : {}),
+  allowedOrigins: ALLOWED_ORIGINS,
+  onsessionopened: (session) => mcpSessions.add(session),
+  onsessionclosed: (session) => mcpSessions.delete(session),
 });
+app.use(mcpHttp.router);
 
 // Error handling middleware
 app.use(
@@ -404,6 +711,8 @@ const gracefulShutdown = async (): Promise<void> => {
     console.error("Error shutting down plugins:", error);
   }
 
+  await mcpHttp.close();
+
   server.close(() => {
     console.log("Server closed");
     process.exit(0);
@@ -423,16 +732,32 @@ async function startServer(): Promise<void> {
       discoveredPlugins
     );
 
-    // For now, we don't auto-load plugins. They need to be explicitly loaded via API
+    // Every discovered plugin is registered, but only enabled ones start
+    for (const pluginDir of discoveredPlugins) {
+      const result = await pluginRegistry.loadPlugin(pluginDir);
+      if (!result.success) {
+        console.warn(`Failed to load plugin ${pluginDir}: ${result.error}`);
+      }
+    }
+    await pluginManager.initializeAllPlugins();
+    pluginManager.startMonitoring();
+
+    if (STDIO) {
+      const session = createMcpSession();
+      await session.connect(new StdioServerTransport());
+      mcpSessions.add(session);
+    }
 
     server.listen(PORT, () => {
       console.log(`MCP Plugin Server running on port ${PORT}`);
       console.log(`WebSocket MCP endpoint: ws://localhost:${PORT}/mcp`);
+      console.log(`HTTP MCP endpoint: http://localhost:${PORT}/mcp`);
+      console.log(`SSE MCP endpoint: http://localhost:${PORT}/sse`);
       console.log(`Health check: http://localhost:${PORT}/health`);
 
       if (!process.env.MASTER_KEY) {
         console.warn(
-          "WARNING: Using auto-generated master key. Set MASTER_KEY environment variable for production."
+          "WARNING: Using an ephemeral master key (ALLOW_EPHEMERAL_MASTER_KEY). Stored credentials will be lost on restart."
         );
         console.warn("Generated master key:", MASTER_KEY);
       }
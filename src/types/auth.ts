@@ -2,7 +2,8 @@ export interface SecureStorage {
   storeCredential(
     pluginId: string,
     credentialId: string,
-    value: string
+    value: string,
+    options?: CredentialOptions
   ): Promise<void>;
   retrieveCredential(
     pluginId: string,
@@ -10,6 +11,49 @@ export interface SecureStorage {
   ): Promise<string | null>;
   deleteCredential(pluginId: string, credentialId: string): Promise<void>;
   listCredentials(pluginId: string): Promise<string[]>;
+
+  // Returns a view whose accesses are attributed to `actor` in the audit log
+  withActor?(actor: string): SecureStorage;
+}
+
+export interface CredentialOptions {
+  // Expired credentials are no longer returned. Replaced on every store, so
+  // storing without it removes a previous expiry.
+  expiresAt?: Date;
+  labels?: Record<string, string>; // Kept from the previous store unless given
+}
+
+// Everything about a credential except its value
+export interface CredentialMetadata {
+  credentialId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt?: Date;
+  lastAccessedAt?: Date;
+  labels: Record<string, string>;
+  expired: boolean;
+}
+
+export interface CredentialAuditEntry {
+  timestamp: string;
+  actor: string; // "admin", "server" or "plugin:<name>"
+  action: "read" | "write" | "delete";
+  pluginId: string;
+  credentialId: string;
+  success: boolean;
+}
+
+export interface KeyRotationResult {
+  keyVersion: string;
+  pluginCount: number;
+  credentialCount: number;
+}
+
+// Implemented by every built-in SecureStorage backend
+export interface ManagedSecureStorage extends SecureStorage {
+  rotateMasterKey(newMasterKey: string): Promise<KeyRotationResult>;
+  getKeyVersion(): string;
+  describeCredentials(pluginId: string): Promise<CredentialMetadata[]>;
 }
 
 export interface EncryptedCredential {
@@ -18,8 +62,12 @@ export interface EncryptedCredential {
   credentialId: string;
   encryptedValue: string;
   iv: string;
+  keyVersion?: string; // Fingerprint of the master key; absent on legacy records
   createdAt: Date;
   updatedAt: Date;
+  expiresAt?: Date;
+  lastAccessedAt?: Date;
+  labels?: Record<string, string>;
 }
 
 export interface AuthenticationResult {
@@ -51,6 +99,15 @@ export interface CustomAuth {
 
 export type AuthConfig = ApiKeyAuth | JwtAuth | CustomAuth;
 
+export interface CustomAuthResult extends AuthenticationResult {
+  headers?: Record<string, string>; // Defaults to a bearer header for `token`
+}
+
+// Exposed by plugins through MCPPlugin.authHandlers for "custom" auth
+export type CustomAuthHandler = (
+  config: Record<string, any>
+) => Promise<CustomAuthResult>;
+
 export interface AuthManager {
   authenticate(
     pluginId: string,
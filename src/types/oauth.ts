@@ -6,6 +6,7 @@ export interface OAuthConfig {
   authorizationUrl: string;
   tokenUrl: string;
   redirectUri: string;
+  revokeUrl?: string;
   pkce?: boolean;
 }
 
@@ -1,3 +1,5 @@
+import { CustomAuthHandler, JwtAuth } from "./auth";
+
 export interface Tool {
   name: string;
   description: string;
@@ -15,6 +17,49 @@ export interface Resource {
   mimeType?: string;
 }
 
+// A family of resources, e.g. "postgres://table/{table}"
+export interface ResourceTemplate {
+  uriTemplate: string; // RFC 6570 URI template
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// Returned by MCPPlugin.readResource. Set `text` for textual data or `blob`
+// for binary data (bytes, or a base64 string). `uri` and `mimeType` default
+// to the requested URI and the resource's declared MIME type.
+export interface ResourceContents {
+  uri?: string;
+  mimeType?: string;
+  text?: string;
+  blob?: Uint8Array | string;
+}
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+// Prompt arguments are always strings
+export interface Prompt {
+  name: string;
+  description?: string;
+  arguments?: PromptArgument[];
+}
+
+export interface PromptMessage {
+  role: "user" | "assistant";
+  content:
+    | { type: "text"; text: string }
+    | { type: "image"; data: string; mimeType: string }; // data is base64
+}
+
+export interface PromptResult {
+  description?: string;
+  messages: PromptMessage[];
+}
+
 export interface Logger {
   info(message: string, ...args: any[]): void;
   warn(message: string, ...args: any[]): void;
@@ -44,6 +89,16 @@ export interface PluginContext {
   isAuthenticated(): Promise<boolean>;
   getTokenInfo(): Promise<OAuthToken | null>;
   requireReauth(): Promise<string>;
+
+  // Request headers for the plugin's configured auth strategy
+  getAuthHeaders(): Promise<Record<string, string>>;
+
+  // Calls a tool of another plugin; only declared dependencies can be called
+  callTool(
+    pluginName: string,
+    toolName: string,
+    args?: Record<string, any>
+  ): Promise<any>;
 }
 
 export interface MCPPlugin {
@@ -51,12 +106,36 @@ export interface MCPPlugin {
   version: string;
   description: string;
   dependencies?: string[];
+  authHandlers?: Record<string, CustomAuthHandler>;
 
   initialize(context: PluginContext): Promise<void>;
   getTools(): Tool[];
   getResources(): Resource[];
-  executeTool(name: string, args: any): Promise<any>;
+  // `signal` aborts when the call times out or the client cancels it
+  executeTool(name: string, args: any, signal?: AbortSignal): Promise<any>;
   cleanup(): Promise<void>;
+
+  // Optional: URI templates for parameterized resources
+  getResourceTemplates?(): ResourceTemplate[];
+  // Optional: produces the content of a resource or of a URI matching one of
+  // the templates; `params` holds the template's variables
+  readResource?(
+    uri: string,
+    params: Record<string, string>
+  ): Promise<ResourceContents | ResourceContents[]>;
+
+  // Optional: prompt templates offered to clients
+  getPrompts?(): Prompt[];
+  getPrompt?(name: string, args: Record<string, string>): Promise<PromptResult>;
+
+  // Optional: checks the plugin's own dependencies (a database pool, a remote
+  // API) during health checks. Throwing counts as unhealthy.
+  healthCheck?(): Promise<PluginHealthReport>;
+}
+
+export interface PluginHealthReport {
+  healthy: boolean;
+  message?: string;
 }
 
 export interface PluginConfig {
@@ -76,8 +155,29 @@ export interface PluginAuthConfig {
       validation?: RegExp;
     };
   };
+  oauth?: PluginOAuthConfig;
+  header?: string; // api-key: request header, default "Authorization"
+  prefix?: string; // api-key: value prefix, default "Bearer"
+  algorithm?: JwtAuth["algorithm"]; // jwt: verification/signing algorithm
+  handler?: string; // custom: key into the plugin's authHandlers
+}
+
+// Provider endpoints for "oauth2" plugins. The client ID and secret are not
+// part of the manifest; they are read from the plugin's secure storage as
+// "client_id" and "client_secret".
+export interface PluginOAuthConfig {
+  provider: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  revokeUrl?: string;
+  scopes: string[];
+  pkce?: boolean;
 }
 
+// Where a plugin runs: loaded into the server ("in-process", the default), or
+// in a child process of its own that the server talks MCP to ("process")
+export type PluginIsolation = "in-process" | "process";
+
 export interface PluginMetadata {
   name: string;
   version: string;
@@ -86,6 +186,24 @@ export interface PluginMetadata {
   homepage?: string;
   dependencies?: string[];
   auth?: PluginAuthConfig;
+  isolation?: PluginIsolation;
+  process?: PluginProcessSettings;
+}
+
+// The "process" section of plugin.json. In-process plugins only use the tool
+// call timeouts; everything else applies to process isolated plugins.
+export interface PluginProcessSettings {
+  timeout?: number; // Default tool call deadline in milliseconds
+  toolTimeouts?: Record<string, number>; // Deadlines for specific tools
+  restartAfterTimeouts?: number; // Consecutive timeouts before a restart
+  healthCheckTimeout?: number; // Deadline for each health check
+  lazy?: boolean; // Spawned by the first call instead of at startup
+  idleTimeout?: number; // Lazy plugins are stopped after this long unused
+  maxMemory?: string;
+  maxCpuTime?: number;
+  niceness?: number;
+  restartPolicy?: "always" | "on-failure" | "never";
+  maxRestarts?: number;
 }
 
 export interface PluginLoadResult {
@@ -97,9 +215,11 @@ export interface PluginLoadResult {
 export interface PluginStatus {
   name: string;
   version: string;
+  isolation: PluginIsolation;
   enabled: boolean;
   initialized: boolean;
   error: string | undefined;
   toolCount: number;
   resourceCount: number;
+  process?: Record<string, any>; // Process isolated plugins: process status
 }